@@ -0,0 +1,348 @@
+// replace with already published or later published equivalent
+import type { ContractContext, MethodReturnContext } from '../../types/abi/filestorage-1.0.1';
+import type { Address, ContractChange, Signer, StorageBackend, TransactionArgument, TransactionMethod } from '../types';
+import type Web3 from 'web3';
+
+import FileStorage from '@skalenetwork/filestorage.js';
+import { Buffer } from 'buffer';
+
+import utils from '../utils';
+const { sanitizeAddress } = utils;
+
+import { ROLE, GAS, STATUS, TRANSACTION, CONTRACT_EVENT } from '../constants';
+import { DeFileManagerError } from '../errors';
+import { NonceManager } from '../nonces';
+import { DePath } from '../path';
+
+// transaction as sent by web3, settled with its receipt
+type SentTransaction = Promise<{ transactionHash: string, blockNumber: number }> & {
+  once(event: 'transactionHash', listener: (hash: string) => void): unknown;
+};
+
+// contract methods followed as changes, roles are followed by their events
+const CHANGE_METHODS = [
+  `${TRANSACTION.CREATE_DIRECTORY}(string)`,
+  `${TRANSACTION.DELETE_DIRECTORY}(string)`,
+  `${TRANSACTION.DELETE_FILE}(string)`,
+  `${TRANSACTION.START_UPLOAD}(string,uint256)`,
+  `${TRANSACTION.UPLOAD_CHUNK}(string,uint256,bytes)`,
+  `${TRANSACTION.FINISH_UPLOAD}(string)`,
+  `${TRANSACTION.RESERVE_SPACE}(address,uint256)`
+];
+
+/**
+ * Storage backend on SKALE FileStorage contract through filestorage.js
+ * transactions are sent to the contract directly, with nonces assigned locally per signer
+ */
+export class FileStorageBackend implements StorageBackend {
+
+  readonly fs: FileStorage;
+  readonly contract: ContractContext;
+
+  // contract constants, loaded once
+  private maxChunkSize?: number;
+  private maxFileSize?: number;
+  private maxContentCount?: number;
+
+  private nonces: NonceManager;
+  // change methods by selector, see CHANGE_METHODS
+  private changeMethods?: Map<string, { name: string, types: string[] }>;
+
+  constructor(w3: Object) {
+    this.fs = new FileStorage(w3 as Web3, true);
+    this.contract = (this.fs.contract.contract as unknown) as ContractContext;
+    this.nonces = new NonceManager();
+  }
+
+  /**
+   * Send a transaction for a contract method as the signer
+   * signed locally with the next nonce of the signer when a private key is available,
+   * else delegated to the provider
+   * @param signer 
+   * @param method 
+   * @param gas 
+   */
+  async sendTransaction(signer: Signer, method: MethodReturnContext, gas: number = GAS.STANDARD) {
+    if (!signer.privateKey) {
+      return this.track(signer, method.send({ from: signer.address, gas }));
+    }
+
+    const web3 = this.fs.web3;
+    const privateKey = '0x' + signer.privateKey.replace(/^0x/i, '');
+    const nonce = await this.nonces.next(signer.address,
+      async () => Number(await web3.eth.getTransactionCount(signer.address, 'pending'))
+    );
+    try {
+      const signedTx = await web3.eth.accounts.signTransaction({
+        from: signer.address,
+        to: this.contract.options.address,
+        data: method.encodeABI(),
+        gas,
+        nonce
+      }, privateKey);
+      return await this.track(signer, web3.eth.sendSignedTransaction(signedTx.rawTransaction as string));
+    } catch (err) {
+      // nonce may be left unused, resync with chain
+      this.nonces.reset(signer.address);
+      throw err;
+    }
+  }
+
+  /**
+   * Notify the signer once a transaction is sent and once mined
+   * @param signer 
+   * @param transaction 
+   */
+  private async track(signer: Signer, transaction: SentTransaction) {
+    const { onTransaction } = signer;
+    onTransaction && transaction.once('transactionHash',
+      (hash) => onTransaction({ hash, status: STATUS.SENT })
+    );
+    const receipt = await transaction;
+    onTransaction && onTransaction({
+      hash: receipt.transactionHash,
+      status: STATUS.MINED,
+      blockNumber: Number(receipt.blockNumber),
+      receipt
+    });
+    return receipt;
+  }
+
+  private async roleHash(role: string): Promise<string> {
+    switch (role) {
+      case ROLE.ADMIN:
+        return this.contract.methods.DEFAULT_ADMIN_ROLE().call();
+      case ROLE.ALLOCATOR:
+        return this.contract.methods.ALLOCATOR_ROLE().call();
+      default:
+        throw new DeFileManagerError();
+    }
+  }
+
+  async listDirectory(storagePath: string) {
+    return this.fs.listDirectory(storagePath);
+  }
+
+  async uploadedChunks(storagePath: string) {
+    const parts = storagePath.split('/');
+    const name = parts.pop();
+    const entries = await this.contract.methods.listDirectory(parts.join('/')).call();
+    const entry = entries.find(entry => entry.name === name);
+    return entry ? entry.isChunkUploaded : [];
+  }
+
+  async getFileStatus(storagePath: string) {
+    return Number(await this.contract.methods.getFileStatus(storagePath).call());
+  }
+
+  async getFileSize(storagePath: string) {
+    return Number(await this.contract.methods.getFileSize(storagePath).call());
+  }
+
+  async readChunk(storagePath: string, position: number, length: number) {
+    if (length <= 0) return Buffer.alloc(0);
+    const words = await this.contract.methods.readChunk(
+      storagePath,
+      position.toString(),
+      length.toString()
+    ).call();
+    // result is bytes32[], padded at the end
+    const hex = (words as string[]).map(word => word.replace(/^0x/i, '')).join('');
+    return Buffer.from(hex, 'hex').slice(0, length);
+  }
+
+  async download(storagePath: string) {
+    return this.fs.downloadToBuffer(storagePath);
+  }
+
+  async getMaxChunkSize() {
+    if (!this.maxChunkSize) {
+      this.maxChunkSize = Number(await this.contract.methods.getMaxChunkSize().call());
+    }
+    return this.maxChunkSize;
+  }
+
+  async getMaxFileSize() {
+    if (!this.maxFileSize) {
+      this.maxFileSize = Number(await this.contract.methods.MAX_FILESIZE().call());
+    }
+    return this.maxFileSize;
+  }
+
+  async getMaxContentCount() {
+    if (!this.maxContentCount) {
+      this.maxContentCount = Number(await this.contract.methods.getMaxContentCount().call());
+    }
+    return this.maxContentCount;
+  }
+
+  async isOnline() {
+    try {
+      await this.fs.web3.eth.getBlockNumber();
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+
+  async getBlockNumber() {
+    return Number(await this.fs.web3.eth.getBlockNumber());
+  }
+
+  /**
+   * Successful contract transactions and role events mined in a range of blocks
+   * the contract emits no events for content, its transactions are decoded instead
+   * @param fromBlock 
+   * @param toBlock inclusive
+   */
+  async getChanges(fromBlock: number, toBlock: number) {
+    const web3 = this.fs.web3;
+    const contractAddress = this.contract.options.address.toLowerCase();
+    // in order mined, by block and index in it
+    let changes: [number, number, ContractChange][] = [];
+
+    for (let number = fromBlock; number <= toBlock; number++) {
+      const block = await web3.eth.getBlock(number, true);
+      for (const transaction of (block ? block.transactions : [])) {
+        if (!transaction.to || transaction.to.toLowerCase() !== contractAddress) continue;
+        const method = this.decodeChange(transaction.input);
+        if (!method) continue;
+        const receipt = await web3.eth.getTransactionReceipt(transaction.hash);
+        if (!receipt || !receipt.status) continue;
+        const sender = sanitizeAddress(transaction.from, { checksum: false });
+        const [target] = method.args;
+        changes.push([number, Number(transaction.transactionIndex), {
+          event: method.name,
+          transaction: { hash: transaction.hash, status: STATUS.MINED, blockNumber: number, receipt },
+          sender,
+          ...(method.name === TRANSACTION.RESERVE_SPACE)
+            ? { account: sanitizeAddress(target, { checksum: false }) }
+            : { storagePath: DePath.from(target).toStoragePath(sender) }
+        }]);
+      }
+    }
+
+    const roles: { [hash: string]: string } = {
+      [await this.roleHash(ROLE.ADMIN)]: ROLE.ADMIN,
+      [await this.roleHash(ROLE.ALLOCATOR)]: ROLE.ALLOCATOR
+    };
+    for (const name of [CONTRACT_EVENT.ROLE_GRANTED, CONTRACT_EVENT.ROLE_REVOKED, CONTRACT_EVENT.ROLE_ADMIN_CHANGED]) {
+      const events = await this.contract.getPastEvents(name as 'RoleGranted', { fromBlock, toBlock });
+      for (const event of events) {
+        const { role, account, sender } = event.returnValues;
+        changes.push([event.blockNumber, event.transactionIndex, {
+          event: name,
+          transaction: { hash: event.transactionHash, status: STATUS.MINED, blockNumber: event.blockNumber },
+          sender: sender ? sanitizeAddress(sender, { checksum: false }) : '',
+          account: account && sanitizeAddress(account, { checksum: false }),
+          role: roles[role] || role
+        }]);
+      }
+    }
+
+    return changes
+      .sort(([blockA, indexA], [blockB, indexB]) => (blockA - blockB) || (indexA - indexB))
+      .map(([, , change]) => change);
+  }
+
+  /**
+   * Method and arguments of a transaction followed as change, if it is one
+   * @param input calldata
+   */
+  private decodeChange(input: string): { name: string, args: string[] } | undefined {
+    const abi = this.fs.web3.eth.abi;
+    if (!this.changeMethods) {
+      this.changeMethods = new Map(CHANGE_METHODS.map(signature => [
+        abi.encodeFunctionSignature(signature),
+        {
+          name: signature.split('(')[0],
+          types: signature.slice(signature.indexOf('(') + 1, -1).split(',')
+        }
+      ]));
+    }
+    const method = this.changeMethods.get((input || '').slice(0, 10));
+    if (!method) return;
+    const values = abi.decodeParameters(method.types, '0x' + input.slice(10));
+    return { name: method.name, args: method.types.map((type, i) => values[i]) };
+  }
+
+  async createDirectory(signer: Signer, path: string) {
+    return this.sendTransaction(signer,
+      this.contract.methods.createDirectory(path)
+    );
+  }
+
+  async deleteDirectory(signer: Signer, path: string) {
+    return this.sendTransaction(signer,
+      this.contract.methods.deleteDirectory(path)
+    );
+  }
+
+  async deleteFile(signer: Signer, path: string) {
+    return this.sendTransaction(signer,
+      this.contract.methods.deleteFile(path)
+    );
+  }
+
+  async startUpload(signer: Signer, path: string, size: number) {
+    return this.sendTransaction(signer,
+      this.contract.methods.startUpload(path, size.toString())
+    );
+  }
+
+  async uploadChunk(signer: Signer, path: string, position: number, data: Buffer) {
+    return this.sendTransaction(signer,
+      this.contract.methods.uploadChunk(path, position.toString(), '0x' + data.toString('hex')),
+      GAS.UPLOAD_CHUNK
+    );
+  }
+
+  async finishUpload(signer: Signer, path: string) {
+    return this.sendTransaction(signer,
+      this.contract.methods.finishUpload(path)
+    );
+  }
+
+  async estimateGas(signer: Signer, method: TransactionMethod, args: TransactionArgument[]) {
+    const values = args.map(arg => Buffer.isBuffer(arg) ? '0x' + arg.toString('hex') : arg.toString());
+    // transaction methods take their arguments as strings
+    const contractMethod: (...values: string[]) => MethodReturnContext = this.contract.methods[method];
+    return Number(await contractMethod(...values).estimateGas({ from: signer.address }));
+  }
+
+  async getGasPrice() {
+    return (await this.fs.web3.eth.getGasPrice()).toString();
+  }
+
+  async getReservedSpace(address: Address) {
+    return Number(await this.fs.getReservedSpace(address));
+  }
+
+  async getOccupiedSpace(address: Address) {
+    return Number(await this.fs.getOccupiedSpace(address));
+  }
+
+  async getTotalReservedSpace() {
+    return Number(await this.fs.getTotalReservedSpace());
+  }
+
+  async getTotalSpace() {
+    return Number(await this.fs.getTotalSpace());
+  }
+
+  async reserveSpace(signer: Signer, address: Address, amount: number) {
+    return this.sendTransaction(signer,
+      this.contract.methods.reserveSpace(sanitizeAddress(address), amount.toString())
+    );
+  }
+
+  async hasRole(role: string, address: Address) {
+    return this.contract.methods.hasRole(await this.roleHash(role), address).call();
+  }
+
+  async grantRole(signer: Signer, role: string, address: Address) {
+    return this.sendTransaction(signer,
+      this.contract.methods.grantRole(await this.roleHash(role), sanitizeAddress(address))
+    );
+  }
+}
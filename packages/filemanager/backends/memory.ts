@@ -0,0 +1,351 @@
+import type { FileStorageDirectory, FileStorageFile } from '@skalenetwork/filestorage.js';
+import type { Address, ContractChange, Signer, StorageBackend, TransactionArgument, TransactionMethod } from '../types';
+
+import { Buffer } from 'buffer';
+
+import utils from '../utils';
+const { sanitizeAddress } = utils;
+
+import { ROLE, FILE_STATUS, REVERT, STATUS, TRANSACTION, CONTRACT_EVENT } from '../constants';
+
+/**
+ * In-memory storage backend following FileStorage contract rules
+ * for tests and local demos without a chain
+ * failures are thrown as errors with contract revert reasons
+ * each applied transaction is mined in a block of its own, with its change kept for getChanges
+ * reads of the block number mine empty blocks, so transactions get confirmations past the last one
+ */
+
+type MemoryNode = {
+  name: string;
+  isFile: boolean;
+  size: number;
+  status: number;
+  chunks: Array<Buffer | undefined>;
+}
+
+export type MemoryBackendOptions = {
+  admins?: Address[];
+  maxChunkSize?: number;
+  maxContentCount?: number;
+  maxFileSize?: number;
+  totalSpace?: number;
+}
+
+export class MemoryBackend implements StorageBackend {
+
+  readonly maxChunkSize: number;
+  readonly maxContentCount: number;
+  readonly maxFileSize: number;
+  readonly totalSpace: number;
+
+  private nodes: Map<string, MemoryNode>; // by storage path
+  private reserved: Map<string, number>; // by home
+  private roles: Map<string, Set<string>>; // by role, of homes
+  private blockNumber: number;
+  private changes: ContractChange[]; // by block
+
+  constructor(options: MemoryBackendOptions = {}) {
+    this.maxChunkSize = options.maxChunkSize || 2 ** 20;
+    this.maxContentCount = options.maxContentCount || 2 ** 13;
+    this.maxFileSize = options.maxFileSize || 100 * 2 ** 20;
+    this.totalSpace = options.totalSpace || 2 ** 40;
+
+    this.nodes = new Map();
+    this.reserved = new Map();
+    this.roles = new Map([
+      [ROLE.ADMIN, new Set((options.admins || []).map(address => this.home(address)))],
+      [ROLE.ALLOCATOR, new Set()],
+    ]);
+    this.blockNumber = 0;
+    this.changes = [];
+  }
+
+  /**
+   * Mine an applied transaction of the signer in a new block
+   * @param signer 
+   * @param change of contract state by the transaction, if any
+   */
+  private mine(signer: Signer, change?: Pick<ContractChange, 'event' | 'storagePath' | 'account' | 'role'>) {
+    this.blockNumber++;
+    const hash = '0x' + this.blockNumber.toString(16).padStart(64, '0');
+    const receipt = { transactionHash: hash, blockNumber: this.blockNumber, from: signer.address, status: true };
+    change && this.changes.push({
+      ...change,
+      transaction: { hash, status: STATUS.MINED, blockNumber: this.blockNumber, receipt },
+      sender: sanitizeAddress(signer.address, { checksum: false })
+    });
+    if (signer.onTransaction) {
+      signer.onTransaction({ hash, status: STATUS.SENT });
+      signer.onTransaction({ hash, status: STATUS.MINED, blockNumber: this.blockNumber, receipt });
+    }
+    return receipt;
+  }
+
+  private home(address: Address) {
+    return sanitizeAddress(address, { prefix: false, checksum: false });
+  }
+
+  private storagePath(signer: Signer, path: string) {
+    const parts = path.split('/');
+    if (!path || parts.some(part => !part || part === '.' || part === '..')) {
+      throw Error(REVERT.INVALID_PATH);
+    }
+    return this.home(signer.address) + '/' + path;
+  }
+
+  // directories may be given with trailing slashes, as listed by filestorage.js
+  private directoryPath(storagePath: string) {
+    return storagePath.replace(/\/+$/, '');
+  }
+
+  private parentPath(storagePath: string) {
+    return storagePath.split('/').slice(0, -1).join('/');
+  }
+
+  private isDirectory(storagePath: string) {
+    storagePath = this.directoryPath(storagePath);
+    // address home directories always exist
+    if (!storagePath.includes('/')) return true;
+    const node = this.nodes.get(storagePath);
+    return !!node && !node.isFile;
+  }
+
+  private children(storagePath: string) {
+    const prefix = this.directoryPath(storagePath) + '/';
+    return Array.from(this.nodes.keys())
+      .filter(path => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'));
+  }
+
+  private file(storagePath: string) {
+    const node = this.nodes.get(storagePath);
+    if (!node || !node.isFile) throw Error(REVERT.NOT_FOUND);
+    return node;
+  }
+
+  private addContent(storagePath: string, node: MemoryNode) {
+    const parent = this.parentPath(storagePath);
+    if (!this.isDirectory(parent)) throw Error(REVERT.NOT_FOUND);
+    if (this.nodes.has(storagePath)) throw Error(REVERT.EXISTS);
+    if (this.children(parent).length >= this.maxContentCount) throw Error(REVERT.CONTENT_COUNT);
+    this.nodes.set(storagePath, node);
+  }
+
+  private requireRole(role: string, signer: Signer) {
+    if (!this.roles.get(role)?.has(this.home(signer.address))) {
+      throw Error(REVERT.NOT_ALLOWED);
+    }
+  }
+
+  async listDirectory(storagePath: string) {
+    if (!this.isDirectory(storagePath)) throw Error(REVERT.NOT_FOUND);
+    return this.children(storagePath).map(path => {
+      const node = this.nodes.get(path) as MemoryNode;
+      if (!node.isFile) {
+        return { name: node.name, storagePath: path, isFile: false } as FileStorageDirectory;
+      }
+      const uploaded = node.chunks.filter(Boolean).length;
+      return {
+        name: node.name,
+        storagePath: path,
+        isFile: true,
+        size: node.size,
+        status: node.status,
+        uploadingProgress: node.chunks.length ? Math.floor(uploaded / node.chunks.length * 100) : 100
+      } as FileStorageFile;
+    });
+  }
+
+  async uploadedChunks(storagePath: string) {
+    return this.file(storagePath).chunks.map(Boolean);
+  }
+
+  async getFileStatus(storagePath: string) {
+    const node = this.nodes.get(storagePath);
+    return (node && node.isFile) ? node.status : FILE_STATUS.NO_EXIST;
+  }
+
+  async getFileSize(storagePath: string) {
+    return this.file(storagePath).size;
+  }
+
+  async readChunk(storagePath: string, position: number, length: number) {
+    const node = this.file(storagePath);
+    if (node.status !== FILE_STATUS.UPLOADED) throw Error(REVERT.NOT_UPLOADED);
+    if (position < 0 || position + length > node.size) throw Error(REVERT.CHUNK_POSITION);
+    if (length > this.maxChunkSize) throw Error(REVERT.CHUNK_LENGTH);
+    return Buffer.concat(node.chunks as Buffer[]).slice(position, position + length);
+  }
+
+  async download(storagePath: string) {
+    const node = this.file(storagePath);
+    if (node.status !== FILE_STATUS.UPLOADED) throw Error(REVERT.NOT_UPLOADED);
+    return Buffer.concat(node.chunks as Buffer[]);
+  }
+
+  async getMaxChunkSize() {
+    return this.maxChunkSize;
+  }
+
+  async getMaxFileSize() {
+    return this.maxFileSize;
+  }
+
+  async getMaxContentCount() {
+    return this.maxContentCount;
+  }
+
+  async createDirectory(signer: Signer, path: string) {
+    const storagePath = this.storagePath(signer, path);
+    this.addContent(storagePath, {
+      name: path.split('/').pop() as string,
+      isFile: false,
+      size: 0,
+      status: FILE_STATUS.NO_EXIST,
+      chunks: []
+    });
+    return this.mine(signer, { event: TRANSACTION.CREATE_DIRECTORY, storagePath });
+  }
+
+  async deleteDirectory(signer: Signer, path: string) {
+    const storagePath = this.storagePath(signer, path);
+    if (!this.nodes.has(storagePath) || !this.isDirectory(storagePath)) throw Error(REVERT.NOT_FOUND);
+    if (this.children(storagePath).length) throw Error(REVERT.NOT_EMPTY);
+    this.nodes.delete(storagePath);
+    return this.mine(signer, { event: TRANSACTION.DELETE_DIRECTORY, storagePath });
+  }
+
+  async deleteFile(signer: Signer, path: string) {
+    const storagePath = this.storagePath(signer, path);
+    this.file(storagePath);
+    this.nodes.delete(storagePath);
+    return this.mine(signer, { event: TRANSACTION.DELETE_FILE, storagePath });
+  }
+
+  async startUpload(signer: Signer, path: string, size: number) {
+    const storagePath = this.storagePath(signer, path);
+    if (size > this.maxFileSize) throw Error(REVERT.FILE_SIZE);
+    const address = signer.address;
+    if ((await this.getOccupiedSpace(address)) + size > (await this.getReservedSpace(address))) {
+      throw Error(REVERT.NO_SPACE);
+    }
+    this.addContent(storagePath, {
+      name: path.split('/').pop() as string,
+      isFile: true,
+      size,
+      status: FILE_STATUS.CREATED,
+      chunks: new Array(Math.ceil(size / this.maxChunkSize)).fill(undefined)
+    });
+    return this.mine(signer, { event: TRANSACTION.START_UPLOAD, storagePath });
+  }
+
+  async uploadChunk(signer: Signer, path: string, position: number, data: Buffer) {
+    const storagePath = this.storagePath(signer, path);
+    const node = this.file(storagePath);
+    if (node.status !== FILE_STATUS.CREATED) throw Error(REVERT.NOT_CREATED);
+    const index = position / this.maxChunkSize;
+    if (!Number.isInteger(index) || index < 0 || index >= node.chunks.length) {
+      throw Error(REVERT.CHUNK_POSITION);
+    }
+    if (data.length !== Math.min(this.maxChunkSize, node.size - position)) {
+      throw Error(REVERT.CHUNK_LENGTH);
+    }
+    if (node.chunks[index]) throw Error(REVERT.CHUNK_UPLOADED);
+    node.chunks[index] = Buffer.from(data);
+    return this.mine(signer, { event: TRANSACTION.UPLOAD_CHUNK, storagePath });
+  }
+
+  async finishUpload(signer: Signer, path: string) {
+    const storagePath = this.storagePath(signer, path);
+    const node = this.file(storagePath);
+    if (node.status !== FILE_STATUS.CREATED) throw Error(REVERT.NOT_CREATED);
+    if (!node.chunks.every(Boolean)) throw Error(REVERT.NOT_FINISHED);
+    node.status = FILE_STATUS.UPLOADED;
+    return this.mine(signer, { event: TRANSACTION.FINISH_UPLOAD, storagePath });
+  }
+
+  /**
+   * Gas by size of arguments as calldata, contract state is not checked
+   * @param signer 
+   * @param method 
+   * @param args 
+   */
+  async estimateGas(signer: Signer, method: TransactionMethod, args: TransactionArgument[]) {
+    const bytes = args.reduce<number>((total, arg) => total + (
+      typeof arg === 'number' ? 32 : Buffer.byteLength(arg)
+    ), 4);
+    return 21000 + 16 * bytes;
+  }
+
+  async getGasPrice() {
+    return '0';
+  }
+
+  async isOnline() {
+    return true;
+  }
+
+  // an empty block is mined per read, as a chain keeps producing blocks without transactions
+  async getBlockNumber() {
+    return ++this.blockNumber;
+  }
+
+  async getChanges(fromBlock: number, toBlock: number) {
+    return this.changes.filter(({ transaction }) =>
+      (transaction.blockNumber as number) >= fromBlock && (transaction.blockNumber as number) <= toBlock
+    );
+  }
+
+  async getReservedSpace(address: Address) {
+    return this.reserved.get(this.home(address)) || 0;
+  }
+
+  async getOccupiedSpace(address: Address) {
+    const prefix = this.home(address) + '/';
+    let occupied = 0;
+    this.nodes.forEach((node, path) => {
+      if (node.isFile && path.startsWith(prefix)) {
+        occupied += node.size;
+      }
+    });
+    return occupied;
+  }
+
+  async getTotalReservedSpace() {
+    return Array.from(this.reserved.values()).reduce((total, space) => total + space, 0);
+  }
+
+  async getTotalSpace() {
+    return this.totalSpace;
+  }
+
+  async reserveSpace(signer: Signer, address: Address, amount: number) {
+    this.requireRole(ROLE.ALLOCATOR, signer);
+    if (amount < (await this.getOccupiedSpace(address))) throw Error(REVERT.RESERVED_SPACE);
+    const others = (await this.getTotalReservedSpace()) - (await this.getReservedSpace(address));
+    if (others + amount > this.totalSpace) throw Error(REVERT.NO_SPACE);
+    this.reserved.set(this.home(address), amount);
+    return this.mine(signer, {
+      event: TRANSACTION.RESERVE_SPACE,
+      account: sanitizeAddress(address, { checksum: false })
+    });
+  }
+
+  async hasRole(role: string, address: Address) {
+    return !!this.roles.get(role)?.has(this.home(address));
+  }
+
+  async grantRole(signer: Signer, role: string, address: Address) {
+    this.requireRole(ROLE.ADMIN, signer);
+    const members = this.roles.get(role) || new Set();
+    // emitted once granted, as by the contract
+    const granted = !members.has(this.home(address));
+    members.add(this.home(address));
+    this.roles.set(role, members);
+    return this.mine(signer, granted ? {
+      event: CONTRACT_EVENT.ROLE_GRANTED,
+      account: sanitizeAddress(address, { checksum: false }),
+      role
+    } : undefined);
+  }
+}
@@ -0,0 +1,178 @@
+import type { FileStorageDirectory, FileStorageFile } from '@skalenetwork/filestorage.js';
+import type { CacheOptions, CacheStats, IndexedListing, KeyValueStorage } from './types';
+
+import { CACHE } from './constants';
+
+type Listing = Array<FileStorageDirectory | FileStorageFile>;
+
+type CachedListing = {
+  entries: Listing;
+  bytes: number; // approximate, as serialized
+  cachedAt: number;
+  restored?: boolean; // from the directory index, stale until loaded again
+}
+
+export type CacheLookup = {
+  entries: Listing;
+  stale: boolean; // past ttl, to be revalidated
+}
+
+/**
+ * Directory listings by storage path, with expiry and limits
+ * listings are fresh for ttl, then served stale while revalidated until staleWhileRevalidate has passed
+ * least recently used listings are evicted past max entries or bytes
+ * with a directory index, listings are persisted under the namespace and restored in later sessions
+ */
+export class ListingCache {
+
+  readonly ttl: number;
+  readonly staleWhileRevalidate: number;
+  readonly maxEntries: number;
+  readonly maxBytes: number;
+
+  private listings: Map<string, CachedListing>; // by storage path, least recently used first
+  private bytes: number;
+  private counters: Omit<CacheStats, 'entries' | 'bytes'>;
+  private invalidations: number;
+  private readonly storage?: KeyValueStorage<IndexedListing>;
+  private readonly namespace: string;
+
+  constructor(options: CacheOptions = {}, storage?: KeyValueStorage<IndexedListing>, namespace: string = '') {
+    this.ttl = options.ttl ?? CACHE.TTL;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? CACHE.STALE_WHILE_REVALIDATE;
+    this.maxEntries = options.maxEntries ?? CACHE.MAX_ENTRIES;
+    this.maxBytes = options.maxBytes ?? CACHE.MAX_BYTES;
+
+    this.listings = new Map();
+    this.bytes = 0;
+    this.counters = { hits: 0, stale: 0, misses: 0, evictions: 0 };
+    this.invalidations = 0;
+    this.storage = storage;
+    this.namespace = namespace;
+  }
+
+  /**
+   * Changes with every invalidation, for listings loaded meanwhile not to be cached
+   */
+  get generation(): number {
+    return this.invalidations;
+  }
+
+  /**
+   * Listing by storage path, counted as hit, stale hit or miss
+   * @param path
+   */
+  get(path: string): CacheLookup | undefined {
+    const cached = this.listings.get(path);
+    const age = cached ? Date.now() - cached.cachedAt : 0;
+    if (!cached || (!cached.restored && age > this.ttl + this.staleWhileRevalidate)) {
+      cached && this.delete(path);
+      this.counters.misses++;
+      return;
+    }
+    // most recently used last
+    this.listings.delete(path);
+    this.listings.set(path, cached);
+    const stale = cached.restored || age > this.ttl;
+    stale ? this.counters.stale++ : this.counters.hits++;
+    return { entries: cached.entries, stale };
+  }
+
+  /**
+   * Cache a listing, evicting least recently used ones past limits
+   * @param path
+   * @param entries
+   * @param generation at which loading started, not cached if invalidated since
+   */
+  set(path: string, entries: Listing, generation: number = this.invalidations) {
+    if (generation !== this.invalidations) return;
+    const cachedAt = Date.now();
+    this.insert(path, entries, cachedAt) ? this.persist(path, { entries, cachedAt }) : this.persist(path);
+  }
+
+  private insert(path: string, entries: Listing, cachedAt: number, restored?: boolean): boolean {
+    this.drop(path);
+    const bytes = JSON.stringify(entries).length;
+    if (bytes > this.maxBytes) return false;
+    this.listings.set(path, { entries, bytes, cachedAt, restored });
+    this.bytes += bytes;
+    for (const oldest of this.listings.keys()) {
+      if (this.listings.size <= this.maxEntries && this.bytes <= this.maxBytes) break;
+      this.delete(oldest);
+      this.counters.evictions++;
+    }
+    return this.listings.has(path);
+  }
+
+  delete(path: string) {
+    this.drop(path) && this.persist(path);
+  }
+
+  private drop(path: string): boolean {
+    const cached = this.listings.get(path);
+    if (!cached) return false;
+    this.listings.delete(path);
+    this.bytes -= cached.bytes;
+    return true;
+  }
+
+  /**
+   * Write a listing to the directory index, or remove it without one
+   * best-effort, persisted listings are revalidated once restored
+   */
+  private persist(path: string, listing?: IndexedListing) {
+    if (!this.storage) return;
+    const key = `${this.namespace}:${path}`;
+    (listing ? this.storage.set(key, listing) : this.storage.delete(key)).catch(() => undefined);
+  }
+
+  /**
+   * Load listings of the directory index within a storage path, ex: an address home
+   * restored listings are served as stale until loaded again, ones already cached are kept
+   * @param path storage path
+   * @returns storage paths of restored listings
+   */
+  async restore(path: string): Promise<string[]> {
+    if (!this.storage) return [];
+    const generation = this.invalidations;
+    const prefix = `${this.namespace}:${path}`;
+    const restored: string[] = [];
+    for (const key of await this.storage.keys()) {
+      if (key !== prefix && !key.startsWith(prefix + '/')) continue;
+      const listing = await this.storage.get(key);
+      // invalidated meanwhile, restored listings may be outdated
+      if (generation !== this.invalidations) return restored;
+      const cachedPath = key.slice(this.namespace.length + 1);
+      if (!listing || this.listings.has(cachedPath)) continue;
+      this.insert(cachedPath, listing.entries, listing.cachedAt, true) && restored.push(cachedPath);
+    }
+    return restored;
+  }
+
+  /**
+   * Drop the listing of a path, with those of its descendants for subtree
+   * @param path storage path
+   * @param subtree
+   */
+  invalidate(path: string, subtree: boolean = false) {
+    this.invalidations++;
+    this.delete(path);
+    if (!subtree) return;
+    for (const cachedPath of Array.from(this.listings.keys())) {
+      if (cachedPath.startsWith(path + '/')) {
+        this.delete(cachedPath);
+      }
+    }
+  }
+
+  clear() {
+    this.invalidations++;
+    for (const path of Array.from(this.listings.keys())) {
+      this.delete(path);
+    }
+  }
+
+  stats(): CacheStats {
+    return { ...this.counters, entries: this.listings.size, bytes: this.bytes };
+  }
+}
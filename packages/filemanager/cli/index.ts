@@ -1,7 +1,8 @@
 import type { Chain } from '../../types';
+import type { PlannedOperation } from '../types';
 
-import { join, resolve } from 'path';
-import { readFileSync, readdir, existsSync, stat } from 'fs';
+import { join, resolve, basename } from 'path';
+import { readFileSync, readdir, readdirSync, existsSync, stat, statSync } from 'fs';
 import { program } from 'commander';
 
 program
@@ -12,6 +13,15 @@ program
   .option('-d, --destinationPath <char>', 'Path to deploy to, relative to address ex: www/html (default: sourcePath directory name)')
   .option('-m, --mode <char>', 'the postfix of .env file (typical: "staging", "production")')
   .option('-i, --interactive', 'interactively set address and private key')
+  .option('-r, --resume', 'resume an interrupted deployment instead of replacing the destination')
+  .option('-c, --concurrency <number>', 'operations sent at once (default: 1, or the MTM limit)')
+  .option('--mtm <limit>', 'transactions in flight with multi-transaction mode of the chain (default: FS_CHAIN_MTM_LIMIT)')
+  .option('--attempts <number>', 'attempts of operations failed by transient errors (default: 3)')
+  .option('--confirmations <blocks>', 'blocks a transaction is mined in and past before its operation succeeds (default: 1)')
+  .option('-e, --estimate', 'estimate gas and cost of the deployment without sending transactions')
+  .option('-g, --glob <patterns...>', 'list remote files and directories matching patterns within destinationPath (default: the address home)')
+  .option('--ignore <patterns...>', 'patterns of remote paths left out of --glob, ex: "**/node_modules"')
+  .option('--remove', 'delete the remote files matched by --glob')
   ;
 
 program.parse();
@@ -28,8 +38,22 @@ const { env } = process;
 import promptt from "password-prompt";
 import Web3 from "web3";
 
-import { DeDirectory, DeFileManager } from "../defilemanager";
-import { OPERATION } from "../constants";
+import { DeDirectory, DeFile, DeFileManager, FileOrDir } from "../defilemanager";
+import { DePath } from "../path";
+import { OPERATION, STATUS, ERROR_CODE, KIND } from "../constants";
+import { toDeFileManagerError, isOperationFailure } from "../errors";
+import { JsonFileStorage } from "./storage";
+
+const UPLOAD_SESSIONS_PATH = '.skale-uploads.json';
+const JOURNAL_PATH = '.skale-journal.json';
+const DIRECTORY_INDEX_PATH = '.skale-index.json';
+
+// file or directory of the deployed local tree
+type LocalEntry = {
+  kind: string; // see KIND
+  name: string;
+  path: string; // absolute
+}
 
 const getRpcEndpoint = (data: Chain) => {
   return `${data.protocol}://${data.nodeDomain}/${data.version}/${data.sChainName}`
@@ -53,6 +77,19 @@ const getKeys = async () => {
   }
 }
 
+/**
+ * Remote path relative to address, normalized, exits when invalid
+ * @param remotePath 
+ */
+const parseRemotePath = (remotePath: string): DePath => {
+  try {
+    return DePath.parse(remotePath);
+  } catch (err) {
+    console.error("\nError: destinationPath is invalid, expected names separated by /\n");
+    return process.exit();
+  }
+}
+
 (async () => {
 
   const { address, pvtKey } = await getKeys();
@@ -62,33 +99,80 @@ const getKeys = async () => {
     return program.help();
   }
 
-  const provider = new Web3.providers.HttpProvider(getRpcEndpoint({
-    protocol: env.FS_CHAIN_PROTOCOL,
-    nodeDomain: env.FS_CHAIN_NODE_DOMAIN,
-    version: env.FS_CHAIN_VERSION,
-    sChainName: env.FS_CHAIN_NAME,
-    chainId: env.FS_CHAIN_ID
-  }));
-
-  const fm = new DeFileManager(provider, address, address, pvtKey);
-
-  fm.bus.subscribe((event: any) => {
-    if (event.type === OPERATION.UPLOAD_FILE) {
-      let message = "";
-      if (event.status === "success") {
-        message = "[/] Done uploading:";
-      } else {
-        message = "[x] Failed to upload:";
-      }
+  const { FS_CHAIN_PROTOCOL, FS_CHAIN_NODE_DOMAIN, FS_CHAIN_VERSION, FS_CHAIN_NAME, FS_CHAIN_ID } = env;
+
+  if (!(FS_CHAIN_PROTOCOL && FS_CHAIN_NODE_DOMAIN && FS_CHAIN_VERSION && FS_CHAIN_NAME && FS_CHAIN_ID)) {
+    console.error("\nError: Chain is not configured, set FS_CHAIN_* variables in .env\n");
+    return process.exit();
+  }
+
+  const chain: Chain = {
+    protocol: FS_CHAIN_PROTOCOL,
+    nodeDomain: FS_CHAIN_NODE_DOMAIN,
+    version: FS_CHAIN_VERSION,
+    sChainName: FS_CHAIN_NAME,
+    chainId: FS_CHAIN_ID,
+    mtmLimit: Number(options.mtm || env.FS_CHAIN_MTM_LIMIT) || undefined,
+    explorerUrl: env.FS_CHAIN_EXPLORER_URL
+  };
+
+  const transactionLink = (hash: string) => chain.explorerUrl
+    ? `${chain.explorerUrl.replace(/\/$/, '')}/tx/${hash}`
+    : hash;
+
+  const provider = new Web3.providers.HttpProvider(getRpcEndpoint(chain));
+
+  const fm = new DeFileManager(provider, address, address, pvtKey, {
+    uploadSessions: new JsonFileStorage(UPLOAD_SESSIONS_PATH),
+    journal: new JsonFileStorage(JOURNAL_PATH),
+    directoryIndex: new JsonFileStorage(DIRECTORY_INDEX_PATH),
+    chainId: chain.chainId,
+    concurrency: Number(options.concurrency) || undefined,
+    mtm: chain.mtmLimit,
+    retry: { attempts: Number(options.attempts) || undefined },
+    confirmations: Number(options.confirmations) || undefined
+  });
+
+  let wasOffline = false;
+  fm.online.subscribe((online: boolean) => {
+    if (!online) {
+      console.info("[!] Chain is unreachable, operations paused until it is back");
+    } else if (wasOffline) {
+      console.info("[/] Chain is reachable, operations continue");
+    }
+    wasOffline = !online;
+  });
+
+  fm.bus.subscribe((event) => {
+    if (event.status === STATUS.MINED) {
+      const { hash, blockNumber } = event.result.transaction;
+      console.info(`[#] ${event.type} transaction mined in block ${blockNumber}: ${transactionLink(hash)}`);
+    }
+  });
 
-      console.info(message, join(
-        (event.result.destDirectory as DeDirectory).path,
-        event.result.file.name)
-      );
+  fm.on(OPERATION.UPLOAD_FILE, (event) => {
+    // statuses of transactions carry no file
+    const uploadPath = (result: { destDirectory: DeDirectory, file: { name: string } }) => DePath
+      .from(result.destDirectory.path)
+      .child(result.file.name)
+      .toString();
+    if (event.status === STATUS.PROGRESS) {
+      const { loaded, total, chunk, chunks } = event.result.progress;
+      console.info(`[~] Uploading: ${uploadPath(event.result)} ${loaded}/${total} bytes (chunk ${chunk}/${chunks})`);
+    } else if (event.status === STATUS.SUCCESS) {
+      console.info("[/] Done uploading:", uploadPath(event.result));
+    } else if (event.status === STATUS.RETRYING) {
+      const { attempt, attempts, delay, error } = event.result;
+      console.info(`[!] Retrying upload in ${delay}ms: ${uploadPath(event.result)} (attempt ${attempt}/${attempts} failed, ${error.code}: ${error.message})`);
+    } else if (event.status === STATUS.CANCELLED) {
+      console.info("[x] Cancelled upload:", uploadPath(event.result));
+    } else if (event.status === STATUS.ERROR) {
+      const { code, message } = event.result.error;
+      console.info("[x] Failed to upload:", uploadPath(event.result), `(${code}: ${message})`);
     }
   });
 
-  const iterateLocalDirectory = (directoryPath, onEntry) => {
+  const iterateLocalDirectory = (directoryPath: string, onEntry: (entry: LocalEntry) => void) => {
     const iterator = async () => {
       readdir(directoryPath, async (err, files) => {
         for await (let filePath of files) {
@@ -136,7 +220,9 @@ const getKeys = async () => {
       remotePath = localPathParts[localPathParts.length - 1];
     }
 
-    const handleDirEntry = (deDirectory) => (async (entry) => {
+    const remote = parseRemotePath(remotePath);
+
+    const handleDirEntry = (deDirectory: DeDirectory) => (async (entry: LocalEntry) => {
 
       // upload file to existing remote directory
       if (entry.kind === "file") {
@@ -144,7 +230,7 @@ const getKeys = async () => {
           const { status, result } = await fm.uploadFile(deDirectory, {
             name: entry.name,
             buffer: () => readFileSync(entry.path)
-          });
+          }, { resumable: true });
         } catch (e) {
         }
       }
@@ -154,21 +240,40 @@ const getKeys = async () => {
         try {
           const { result } = await fm.createDirectory(deDirectory, entry.name);
           iterateLocalDirectory(entry.path, handleDirEntry(result.directory));
-        } catch ({ result }) {
+        } catch (err) {
+          // directory remains from the interrupted deployment
+          if (options.resume && isOperationFailure(err, OPERATION.CREATE_DIRECTORY)
+            && err.result.error.code === ERROR_CODE.ALREADY_EXISTS) {
+            iterateLocalDirectory(entry.path, handleDirEntry(err.result.directory));
+          }
         }
       }
     });
 
-    let directory: DeDirectory = (await fm.resolvePath(remotePath)) as DeDirectory;
+    let directory: DeDirectory = (await fm.resolvePath(remote)) as DeDirectory;
+
+    if (directory && options.resume) {
+      // operations of the interrupted deployment, uploads read from their local files
+      const replayed = await fm.replay(async (path) => {
+        const filePath = join(localPath, DePath.from(path).relativeTo(remote));
+        return existsSync(filePath)
+          ? { name: basename(filePath), buffer: () => readFileSync(filePath) }
+          : undefined;
+      });
+      console.info(`[/] Replayed operations of the interrupted deployment: ${replayed.length}`);
+      const pending = await fm.pendingUploads();
+      console.info(`[/] Resuming upload in directory: ${directory.path} (${pending.length} incomplete files)`);
+      iterateLocalDirectory(localPath, handleDirEntry(directory));
+      return;
+    }
 
     if (directory) {
       await fm.deleteDirectory(directory);
     }
 
-    console.info(`[-] Creating directory @ ${remotePath}`);
-    let parts = remotePath.split("/");
-    let name = parts.pop(); // folder name
-    let path = parts.join(); // relative directory path
+    console.info(`[-] Creating directory @ ${remote}`);
+    let name = remote.basename; // folder name
+    let path = remote.parent.toString(); // relative directory path
     console.log("[?] params", path, name);
     try {
       const destDirectory = (await fm.resolvePath(path)) as DeDirectory;
@@ -176,7 +281,8 @@ const getKeys = async () => {
       const { result } = await fm.createDirectory(destDirectory, name);
       directory = result.directory;
     } catch (err) {
-      console.error("[x] Target directory path is missing:", err);
+      const { code, message } = toDeFileManagerError(err);
+      console.error("[x] Target directory could not be created:", `${code}: ${message}`);
       process.exit();
     }
 
@@ -184,6 +290,131 @@ const getKeys = async () => {
     iterateLocalDirectory(localPath, handleDirEntry(directory));
   }
 
+  /**
+   * Estimate the deployment as replacement of the remote directory
+   * @param localPath 
+   * @param remotePath relative to address
+   */
+  const estimateDeployment = async (
+    localPath: string = (options.sourcePath || "dist"),
+    remotePath: string = options.destinationPath
+  ) => {
+
+    if (!existsSync(localPath)) {
+      console.error("\nError: sourcePath is invalid, does not exist\n");
+      return process.exit();
+    }
+
+    if (remotePath === undefined) {
+      const localPathParts = localPath.split("/");
+      remotePath = localPathParts[localPathParts.length - 1];
+    }
+
+    const remote = parseRemotePath(remotePath);
+
+    let plan: PlannedOperation[] = [];
+
+    // contents are deleted before their directory
+    const planRemoval = async (entry: FileOrDir) => {
+      if (entry.kind === "file") {
+        plan.push({ type: OPERATION.DELETE_FILE, path: entry.path });
+        return;
+      }
+      for await (const child of (entry as DeDirectory).entries()) {
+        await planRemoval(child);
+      }
+      plan.push({ type: OPERATION.DELETE_DIRECTORY, path: entry.path });
+    }
+
+    const planUpload = (directoryPath: string, path: DePath) => {
+      plan.push({ type: OPERATION.CREATE_DIRECTORY, path: path.toString() });
+      for (const name of readdirSync(directoryPath)) {
+        const entryPath = resolve(directoryPath, name);
+        if (statSync(entryPath).isDirectory()) {
+          planUpload(entryPath, path.child(name));
+        } else {
+          plan.push({
+            type: OPERATION.UPLOAD_FILE,
+            path: path.child(name).toString(),
+            file: { name, buffer: () => readFileSync(entryPath) }
+          });
+        }
+      }
+    }
+
+    const directory = await fm.resolvePath(remote);
+    if (directory) {
+      await planRemoval(directory);
+    }
+    planUpload(localPath, remote);
+
+    const estimate = await fm.estimate(plan);
+
+    for (const operation of estimate.operations) {
+      console.info(`[~] ${operation.type} ${operation.path}: ${operation.transactions} tx, ${operation.bytes} bytes, ${operation.gas} gas`);
+    }
+    console.info(`[/] Total: ${estimate.transactions} tx, ${estimate.bytes} bytes, ${estimate.gas} gas, ${estimate.cost} wei at ${estimate.gasPrice} wei/gas`);
+    if (!estimate.exact) {
+      console.info("[!] Transactions depending on earlier ones of the deployment are counted at their gas limit");
+    }
+  }
+
+  /**
+   * List remote entries matching the glob patterns, deleting matched files with remove
+   * @param patterns relative to the remote path
+   * @param remotePath relative to address
+   */
+  const globRemote = async (
+    patterns: string[] = options.glob,
+    remotePath: string = (options.destinationPath || "")
+  ) => {
+    const cwd = await fm.resolvePath(parseRemotePath(remotePath));
+    if (!cwd || cwd.kind !== KIND.DIRECTORY) {
+      console.error("\nError: destinationPath is not a remote directory\n");
+      return process.exit();
+    }
+    let matched: DeFile[] = [];
+    for await (const entry of fm.glob(patterns, {
+      cwd: cwd as DeDirectory,
+      ignore: options.ignore,
+      kind: options.remove ? KIND.FILE : undefined
+    })) {
+      console.info(`[~] ${entry.kind} ${entry.path}`);
+      entry.kind === KIND.FILE && matched.push(entry as DeFile);
+    }
+    if (!options.remove) return;
+    for (const file of matched) {
+      try {
+        await fm.deleteFile(file.parent as DeDirectory, file);
+        console.info(`[/] Deleted ${file.path}`);
+      } catch (err) {
+        const { code, message } = toDeFileManagerError(err);
+        console.error(`[x] ${file.path} could not be deleted:`, `${code}: ${message}`);
+      }
+    }
+  }
+
+  if (options.glob) {
+    try {
+      await globRemote();
+    } catch (err) {
+      const { code, message } = toDeFileManagerError(err);
+      console.error("[x] Remote paths could not be matched:", `${code}: ${message}`);
+    }
+    return process.exit();
+  }
+
+  if (options.estimate) {
+    console.info(`[-] Estimating deployment from ${options.sourcePath}`);
+    try {
+      await estimateDeployment();
+    } catch (err) {
+      const { code, message } = toDeFileManagerError(err);
+      console.error("[x] Deployment could not be estimated:", `${code}: ${message}`);
+    }
+    return process.exit();
+  }
+
   console.info(`[-] Attempting to deploy from ${options.sourcePath}`)
 
   uploadDirectory();
@@ -0,0 +1,43 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+
+import type { KeyValueStorage } from '../types';
+
+/**
+ * JSON file backed adapter for NodeJS, survives process restarts
+ */
+export class JsonFileStorage<T> implements KeyValueStorage<T> {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  private read(): { [key: string]: T } {
+    if (!existsSync(this.filePath)) return {};
+    return JSON.parse(readFileSync(this.filePath, 'utf-8') || '{}');
+  }
+
+  private write(data: { [key: string]: T }) {
+    writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+  }
+
+  async get(key: string) {
+    return this.read()[key];
+  }
+
+  async set(key: string, value: T) {
+    const data = this.read();
+    data[key] = value;
+    this.write(data);
+  }
+
+  async delete(key: string) {
+    const data = this.read();
+    delete data[key];
+    this.write(data);
+  }
+
+  async keys() {
+    return Object.keys(this.read());
+  }
+}
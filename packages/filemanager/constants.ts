@@ -4,25 +4,238 @@ export const KIND = {
 }
 
 export const ROLE = {
+  ADMIN: 'ADMIN',
   OWNER: 'OWNER',
   ALLOCATOR: 'ALLOCATOR',
   CHAIN_OWNER: 'CHAIN_OWNER'
 }
 
+// file status by contract, see FileState
+export const FILE_STATUS = {
+  NO_EXIST: 0,
+  CREATED: 1,
+  UPLOADED: 2
+}
+
 export const OPERATION = {
   UPLOAD_FILE: 'UPLOAD_FILE',
   DELETE_FILE: 'DELETE_FILE',
   DELETE_DIRECTORY: 'DELETE_DIRECTORY',
   CREATE_DIRECTORY: 'CREATE_DIRECTORY',
   GRANT_ROLE: 'GRANT_ROLE',
-  RESERVE_SPACE: 'RESERVE_SPACE'
+  RESERVE_SPACE: 'RESERVE_SPACE',
+  MOVE: 'MOVE',
+  RENAME: 'RENAME',
+  COPY: 'COPY'
+} as const
+
+// scheduling lanes, lower starts first
+export const PRIORITY = {
+  HIGH: 0,
+  NORMAL: 1,
+  LOW: 2
+}
+
+// default lane by operation, metadata before bulk content
+export const OPERATION_PRIORITY: { [operation: string]: number } = {
+  [OPERATION.GRANT_ROLE]: PRIORITY.HIGH,
+  [OPERATION.RESERVE_SPACE]: PRIORITY.HIGH,
+  [OPERATION.CREATE_DIRECTORY]: PRIORITY.NORMAL,
+  [OPERATION.DELETE_FILE]: PRIORITY.NORMAL,
+  [OPERATION.DELETE_DIRECTORY]: PRIORITY.NORMAL,
+  [OPERATION.UPLOAD_FILE]: PRIORITY.LOW,
+  [OPERATION.MOVE]: PRIORITY.LOW,
+  [OPERATION.RENAME]: PRIORITY.LOW,
+  [OPERATION.COPY]: PRIORITY.LOW
+}
+
+// of operation events, in lifecycle order
+// success, error and cancelled are final, see OperationEvent
+export const STATUS = {
+  QUEUED: 'queued',
+  STARTED: 'started',
+  SENT: 'sent', // transaction hash available
+  MINED: 'mined', // receipt available
+  CONFIRMED: 'confirmed', // as by confirmations option
+  PROGRESS: 'progress',
+  RETRYING: 'retrying',
+  SUCCESS: 'success',
+  ERROR: 'error',
+  CANCELLED: 'cancelled',
+  OBSERVED: 'observed' // operation of another client, see DeFileManager.watchChain
+} as const
+
+// statuses operations complete with, others are intermediate
+export const FINAL_STATUSES: string[] = [STATUS.SUCCESS, STATUS.ERROR, STATUS.CANCELLED];
+
+// contract methods of authorized transactions
+export const TRANSACTION = {
+  CREATE_DIRECTORY: 'createDirectory',
+  DELETE_DIRECTORY: 'deleteDirectory',
+  DELETE_FILE: 'deleteFile',
+  START_UPLOAD: 'startUpload',
+  UPLOAD_CHUNK: 'uploadChunk',
+  FINISH_UPLOAD: 'finishUpload',
+  RESERVE_SPACE: 'reserveSpace',
+  GRANT_ROLE: 'grantRole'
+} as const
+
+// events of the contract, emitted for roles only
+export const CONTRACT_EVENT = {
+  ROLE_GRANTED: 'RoleGranted',
+  ROLE_REVOKED: 'RoleRevoked',
+  ROLE_ADMIN_CHANGED: 'RoleAdminChanged'
+}
+
+// operation of observed changes, by contract method or event, see ContractChange
+export const CHANGE_OPERATION: { [event: string]: typeof OPERATION[keyof typeof OPERATION] } = {
+  [TRANSACTION.CREATE_DIRECTORY]: OPERATION.CREATE_DIRECTORY,
+  [TRANSACTION.DELETE_DIRECTORY]: OPERATION.DELETE_DIRECTORY,
+  [TRANSACTION.DELETE_FILE]: OPERATION.DELETE_FILE,
+  [TRANSACTION.START_UPLOAD]: OPERATION.UPLOAD_FILE,
+  [TRANSACTION.UPLOAD_CHUNK]: OPERATION.UPLOAD_FILE,
+  [TRANSACTION.FINISH_UPLOAD]: OPERATION.UPLOAD_FILE,
+  [TRANSACTION.RESERVE_SPACE]: OPERATION.RESERVE_SPACE,
+  [CONTRACT_EVENT.ROLE_GRANTED]: OPERATION.GRANT_ROLE,
+  [CONTRACT_EVENT.ROLE_REVOKED]: OPERATION.GRANT_ROLE,
+  [CONTRACT_EVENT.ROLE_ADMIN_CHANGED]: OPERATION.GRANT_ROLE
+}
+
+// multi-transaction mode, see TransactionPool
+export const MTM = {
+  RETRIES: 2 // attempts of a failed member of a packet, after the first
+}
+
+// retry policy of queued operations by default, see RetryPolicy
+export const RETRY = {
+  ATTEMPTS: 3, // including the first
+  DELAY: 1000, // ms before the first retry
+  FACTOR: 2, // delay multiplier per retry
+  MAX_DELAY: 30000 // ms
+}
+
+// queue is paused while the chain is unreachable, see DeFileManager.online
+export const CONNECTIVITY = {
+  INTERVAL: 5000 // ms between checks while offline
+}
+
+// transactions are confirmed once the chain is past their block
+export const CONFIRMATION = {
+  BLOCKS: 1, // including the block mined in
+  INTERVAL: 1000 // ms between block checks
 }
 
-// @todo-enhancement: improve error coverage, segment some to state, extend with codes
+// changes by other clients are followed per block, see DeFileManager.watchChain
+export const CHAIN_WATCH = {
+  INTERVAL: 2000, // ms between checks for new blocks
+  MAX_BLOCKS: 100 // scanned at once, caches are purged in full past that
+}
+
+// limits of names and paths, see DePath
+export const PATH = {
+  MAX_NAME_LENGTH: 255, // bytes of a file or directory name
+  MAX_LENGTH: 4096, // characters of a relative path
+  INVALID_CHARACTERS: /[\u0000-\u001f\u007f]/ // control characters
+}
+
+// directory listings cache by default, see ListingCache
+export const CACHE = {
+  TTL: 60000, // ms a listing is fresh
+  STALE_WHILE_REVALIDATE: 300000, // ms past ttl a listing is served while loaded again
+  MAX_ENTRIES: 1000, // listings
+  MAX_BYTES: 16 * 2 ** 20 // of listings, approximate
+}
+
+// kinds of changes of a watched directory, see DeFileManager.watch
+export const DIRECTORY_CHANGE = {
+  ADDED: 'added',
+  REMOVED: 'removed',
+  CHANGED: 'changed' // size or upload status of a file
+}
+
+// directories are listed for changes, see DeFileManager.watch
+export const DIRECTORY_WATCH = {
+  INTERVAL: 5000 // ms between listings
+}
+
+// matching of names by a search query, see DeFileManager.search
+export const SEARCH_MODE = {
+  EXACT: 'exact',
+  PREFIX: 'prefix',
+  REGEX: 'regex',
+  FUZZY: 'fuzzy' // by Fuse, tolerating typos
+}
+
+// searches by default, see SearchQuery
+export const SEARCH = {
+  MODE: SEARCH_MODE.FUZZY,
+  FUZZY_THRESHOLD: 0.4 // score past which fuzzy matches are dropped, 0 is a perfect match
+}
+
+// gas limits matching filestorage.js defaults for signed transactions
+export const GAS = {
+  STANDARD: 1000000,
+  UPLOAD_CHUNK: 10000000
+}
+
+// default messages of errors, see errors.ts for typed errors
 export const ERROR = {
   NO_ACCOUNT: "File manager has no signer account",
   NOT_AUTHORIZED: "Signer not authorized to perform the operation",
   BUSY: "File system is currently busy",
   UNKNOWN: "Something went wrong",
-  NO_NET: "You are currently offline"
+  NO_NET: "You are currently offline",
+  TIMEOUT: "Request to the chain timed out",
+  NONCE: "Transaction nonce is out of sync with the chain",
+  INSUFFICIENT_SPACE: "Not enough reserved space for the operation",
+  PATH_NOT_FOUND: "File or directory does not exist",
+  ALREADY_EXISTS: "File or directory already exists",
+  FILE_TOO_LARGE: "File exceeds the max file size",
+  DIRECTORY_FULL: "Directory has reached the max content count",
+  CONTRACT_REVERT: "Transaction reverted by the contract",
+  INVALID_PATH: "Path is invalid for the operation",
+  INVALID_DESTINATION: "Destination is the source or within it",
+  INVALID_QUERY: "Search query is invalid",
+  VERIFICATION_FAILED: "Written content does not match the source",
+  CANCELLED: "Operation was cancelled"
+}
+
+// stable error codes, see errors.ts
+export const ERROR_CODE = {
+  NO_ACCOUNT: 'NO_ACCOUNT',
+  NOT_AUTHORIZED: 'NOT_AUTHORIZED',
+  INSUFFICIENT_SPACE: 'INSUFFICIENT_SPACE',
+  PATH_NOT_FOUND: 'PATH_NOT_FOUND',
+  ALREADY_EXISTS: 'ALREADY_EXISTS',
+  FILE_TOO_LARGE: 'FILE_TOO_LARGE',
+  DIRECTORY_FULL: 'DIRECTORY_FULL',
+  OFFLINE: 'OFFLINE',
+  TIMEOUT: 'TIMEOUT',
+  NONCE: 'NONCE',
+  BUSY: 'BUSY',
+  CONTRACT_REVERT: 'CONTRACT_REVERT',
+  INVALID_PATH: 'INVALID_PATH',
+  INVALID_QUERY: 'INVALID_QUERY',
+  VERIFICATION_FAILED: 'VERIFICATION_FAILED',
+  CANCELLED: 'CANCELLED',
+  UNKNOWN: 'UNKNOWN'
+}
+
+// revert reasons as by FileStorage contract
+export const REVERT = {
+  NOT_ALLOWED: "Caller is not allowed",
+  INVALID_PATH: "Invalid path",
+  EXISTS: "File or directory exists",
+  NOT_FOUND: "File or directory does not exist",
+  NOT_EMPTY: "Directory is not empty",
+  CONTENT_COUNT: "Exceeded max content count",
+  FILE_SIZE: "File should be less than MAX_FILESIZE",
+  NO_SPACE: "Not enough free space in the Filestorage",
+  RESERVED_SPACE: "Reserved space is less than occupied",
+  NOT_CREATED: "File hasn't been created",
+  NOT_UPLOADED: "File hasn't been uploaded",
+  CHUNK_POSITION: "Incorrect chunk position",
+  CHUNK_LENGTH: "Incorrect chunk length",
+  CHUNK_UPLOADED: "Chunk is already uploaded",
+  NOT_FINISHED: "File hasn't been fully uploaded",
 }
\ No newline at end of file
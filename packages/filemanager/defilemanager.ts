@@ -1,45 +1,69 @@
-// replace with already published or later published equivalent
-import type { ContractContext } from '../types/abi/filestorage-1.0.1';
 import type { FilePath } from '../types';
-import type { DePath, Address, PrivateKey, IDeDirectory, IDeFile, OperationEvent, OperationPayload, FileLike } from './types';
+import type { RelativePath, Address, PrivateKey, Signer, StorageBackend, IDeDirectory, IDeFile, OperationEvent, OperationEventOf, OperationType, OperationStatus, OperationResults, OperationSuccess, TransferType, TransferResult, FileLike, OperationProgress, UploadProgress, OperationOptions, UploadOptions, UploadSession, KeyValueStorage, DeFileManagerOptions, PreflightOperation, PlannedOperation, OperationEstimate, PlanEstimate, TransactionArgument, TransactionMethod, RetryPolicy, JournalEntry, JournalParams, TrackedOperation, TransactionState, ContractChange, ObservedChange, DirectoryChange, WatchOptions, GlobOptions, SearchQuery, SearchResult } from './types';
 
 /**
  * @module
  * On-chain file manager for containerizing file management against users / chains
- * wrapping fs.js to serve as better isolation, type safety, reliability and intuitiveness
+ * wrapping fs.js (or other storage backends) to serve as better isolation, type safety, reliability and intuitiveness
  * extendability to multi-fs and multi-contracts
  * consumable of stateful components in a similar manner as browser native APIs
  */
 
 // if searching remains delegated to client-side:
-// later improvement iterations can integrate file trie as index, with current iterator adapting the change
-// as well considering storage options with IndexDB, and advanced uploads management
+// files and directories are indexed in a path trie, later iterations can serve search from it
+// as well as advanced uploads management; listings persist across sessions with a directory index
 // pre-req: standardization of paths as spec from systems up to client-side, exported across SDKs
 
-import FileStorage, {
+import type {
   FileStorageDirectory,
   FileStorageFile,
   StoragePath,
 } from '@skalenetwork/filestorage.js';
 
-import { BehaviorSubject, Observable, of, firstValueFrom } from 'rxjs';
-import { concatMap, share } from 'rxjs/operators';
+import { BehaviorSubject, EMPTY, Observable, Subject, Subscription, defer, from, merge, throwError, timer } from 'rxjs';
+import { catchError, concatMap, distinctUntilChanged, exhaustMap, filter, mergeMap, share, tap } from 'rxjs/operators';
 
 import { Buffer } from 'buffer';
 import sortBy from 'lodash/sortBy';
 import mime from 'mime/lite';
-import Fuse from 'fuse.js';
 import { nanoid } from 'nanoid';
 
 import utils from './utils';
-const { sanitizeAddress, pathToRelative } = utils;
-
-import { KIND, ROLE, OPERATION, ERROR } from './constants';
+const { sanitizeAddress, gasCost, contentHash } = utils;
+
+import { DePath } from './path';
+
+import { KIND, ROLE, OPERATION, OPERATION_PRIORITY, PRIORITY, MTM, CONNECTIVITY, CONFIRMATION, CHAIN_WATCH, CHANGE_OPERATION, DIRECTORY_CHANGE, DIRECTORY_WATCH, STATUS, FILE_STATUS, TRANSACTION, GAS, ERROR, ERROR_CODE } from './constants';
+import {
+  DeFileManagerError,
+  NoAccountError,
+  NotAuthorizedError,
+  PathNotFoundError,
+  AlreadyExistsError,
+  DirectoryFullError,
+  FileTooLargeError,
+  InsufficientSpaceError,
+  InvalidPathError,
+  VerificationError,
+  CancelledError,
+  throwIfCancelled,
+  toDeFileManagerError,
+  isOffline,
+} from './errors';
+import { MemoryStorage } from './storage';
+import { ListingCache } from './cache';
+import { PathTrie } from './trie';
+import { GlobSet } from './glob';
+import { SearchMatcher } from './search';
+import { Scheduler } from './scheduler';
+import { TransactionPool } from './mtm';
+import { retryPolicy, backoff, wait } from './retry';
+import { FileStorageBackend } from './backends/filestorage';
 
 export class DeDirectory implements IDeDirectory {
   kind: string;
   name: string;
-  path: DePath;
+  path: RelativePath;
   manager: DeFileManager;
   parent?: DeDirectory;
 
@@ -50,13 +74,12 @@ export class DeDirectory implements IDeDirectory {
   ) {
     this.kind = KIND.DIRECTORY;
     this.name = data.name;
-    this.path = pathToRelative(data.storagePath);
+    this.path = DePath.fromStoragePath(data.storagePath).toString();
     this.manager = manager;
     this.parent = parent;
-    this.manager.indexDirectory(this);
   }
 
-  entries() {
+  entries(): AsyncGenerator<FileOrDir> {
     return this.manager.entriesGenerator(this);
   }
 }
@@ -64,7 +87,7 @@ export class DeDirectory implements IDeDirectory {
 export class DeFile implements IDeFile {
   kind: string;
   name: string;
-  path: DePath;
+  path: RelativePath;
   size: number;
   type: string;
   manager: DeFileManager;
@@ -77,23 +100,50 @@ export class DeFile implements IDeFile {
   ) {
     this.kind = KIND.FILE;
     this.name = data.name;
-    this.path = pathToRelative(data.storagePath);
+    this.path = DePath.fromStoragePath(data.storagePath).toString();
     this.size = data.size;
-    this.type = mime.getType(data.name);
+    // empty when unknown, as by File.type
+    this.type = mime.getType(data.name) || '';
     this.manager = manager;
     this.parent = parent;
   }
 
   async arrayBuffer(): Promise<ArrayBuffer> {
-    const buffer = await this.manager.fs
-      .downloadToBuffer(
-        this.manager.rootDirectory().name + "/" + this.path
-      );
+    return this.slice();
+  }
+
+  /**
+   * Read a byte range of the file, similar to Blob.slice
+   * @param start inclusive offset
+   * @param end exclusive offset
+   */
+  async slice(start: number = 0, end: number = this.size): Promise<ArrayBuffer> {
+    const buffer = await this.manager.readRange(this, start, end);
     const arrayBuffer = buffer.buffer.slice(
       buffer.byteOffset, buffer.byteOffset + buffer.byteLength
     );
     return arrayBuffer;
   }
+
+  /**
+   * Stream file contents chunk by chunk, read on demand
+   */
+  stream(): ReadableStream<Uint8Array> {
+    let position = 0;
+    return new ReadableStream({
+      pull: async (controller) => {
+        if (position >= this.size) {
+          controller.close();
+          return;
+        }
+        const chunkSize = await this.manager.getMaxChunkSize();
+        const end = Math.min(position + chunkSize, this.size);
+        const chunk = await this.manager.readRange(this, position, end);
+        position = end;
+        controller.enqueue(new Uint8Array(chunk));
+      }
+    });
+  }
 }
 
 export type FileOrDir = DeDirectory | DeFile;
@@ -105,55 +155,106 @@ export class DeFileManager {
   accountPrivateKey?: PrivateKey;
 
   readonly w3: Object;
-  readonly fs: FileStorage;
-  readonly contract: ContractContext;
+  readonly backend: StorageBackend;
 
-  private index: { [path: string]: DeDirectory }
+  // files and directories by relative path, from listings and completed operations
+  private readonly index: PathTrie<FileOrDir>;
   private readonly rootDir: DeDirectory;
-  private cache: { [key: string]: (FileStorageDirectory | FileStorageFile)[] };
-
-  readonly store: BehaviorSubject<Observable<() => Promise<OperationEvent>>>;
+  // directory listings by storage path, shared by listing, resolution and search
+  readonly cache: ListingCache;
+  // listings being loaded, by storage path
+  private listings: Map<string, Promise<Array<FileStorageDirectory | FileStorageFile>>>;
+  // listings of the directory index loaded into cache, awaited by reads
+  private readonly restoring: Promise<void>;
+
+  readonly uploadSessions: KeyValueStorage<UploadSession>;
+  // queued operations until completed, see replay
+  readonly journal: KeyValueStorage<JournalEntry>;
+  readonly preflight: boolean;
+  private readonly priorities: { [operation: string]: number };
+
+  readonly scheduler: Scheduler;
+  // scheduled and running operations, by id
+  private readonly operations: Map<string, TrackedOperation>;
+  // blocks a transaction is mined in and past before confirmed
+  readonly confirmations: number;
+  // multi-transaction mode limit of the chain, see TransactionPool
+  readonly mtm?: number;
+  private readonly transactions: TransactionPool;
+  readonly retry: Required<RetryPolicy>;
+  // chain reachability, the queue is paused while offline
+  readonly online: BehaviorSubject<boolean>;
+  private readonly reconnectInterval: number;
+  private reconnecting?: Promise<void>;
+  // number of the latest block, checked every blockInterval ms while subscribed
+  readonly blocks: Observable<number>;
+  private chainWatch?: Subscription;
+  // hashes sent by this instance while watching, not observed as changes of others
+  private ownTransactions?: Set<string>;
   readonly bus: Observable<OperationEvent>;
+  // intermediate events of running operations, ex: upload progress
+  private readonly events: Subject<OperationEvent>;
 
   constructor(
     w3: Object,
     address: Address,
     account?: Address,
-    accountPrivateKey?: PrivateKey
+    accountPrivateKey?: PrivateKey,
+    options: DeFileManagerOptions = {}
   ) {
     this.address = sanitizeAddress(address, { checksum: false });
     this.account = sanitizeAddress(account);
     this.accountPrivateKey = accountPrivateKey;
 
     this.w3 = w3;
-    this.fs = new FileStorage(w3, true);
-    this.contract = (this.fs.contract.contract as unknown) as ContractContext;
-
-    this.cache = {};
-
-    this.store = new BehaviorSubject(of(
-      () => (Promise.resolve({
-        type: "INIT",
-        status: "success"
-      } as OperationEvent))
-    ));
+    this.backend = options.backend || new FileStorageBackend(w3);
+
+    // namespaced by chain, listings are by storage path within the address home
+    this.cache = new ListingCache(options.cache, options.directoryIndex, String(options.chainId ?? ''));
+    this.listings = new Map();
+    this.uploadSessions = options.uploadSessions || new MemoryStorage();
+    this.journal = options.journal || new MemoryStorage();
+    this.preflight = options.preflight !== false;
+    this.priorities = { ...OPERATION_PRIORITY, ...options.priorities };
+
+    this.mtm = options.mtm;
+    this.transactions = new TransactionPool(options.mtm);
+    this.scheduler = new Scheduler(options.concurrency || options.mtm);
+    this.retry = retryPolicy(options.retry);
+    this.online = new BehaviorSubject<boolean>(true);
+    this.reconnectInterval = options.reconnectInterval || CONNECTIVITY.INTERVAL;
+    this.operations = new Map();
+    this.confirmations = options.confirmations ?? CONFIRMATION.BLOCKS;
+    this.events = new Subject();
+    this.blocks = timer(0, options.blockInterval || CHAIN_WATCH.INTERVAL).pipe(
+      // checks are skipped while one is pending or the chain is unreachable
+      exhaustMap(() => from(this.backend.getBlockNumber()).pipe(catchError(() => EMPTY))),
+      distinctUntilChanged(),
+      share()
+    );
 
-    this.bus = this.store.pipe(
-      concatMap(async (taskObserver, index) => {
-        // console.log("fm:bus:concatMap::taskObserver", taskObserver, index);
+    this.bus = merge(this.scheduler.completed.pipe(
+      tap((event) => {
+        const { result } = event;
+        result && 'destDirectory' in result &&
+          result.destDirectory &&
+          this.invalidateCache(result.destDirectory);
 
-        const task = await firstValueFrom(taskObserver);
-        // console.log("fm:bus:concatMap::task", task);
+        result && 'sourceDirectory' in result &&
+          result.sourceDirectory &&
+          this.invalidateCache(result.sourceDirectory);
 
-        const returnValue = await task();
-        // console.log("fm:bus:concatMap::event:::returnValue", returnValue);
+        // listings within removed directories
+        event.type === OPERATION.DELETE_DIRECTORY && event.status === STATUS.SUCCESS &&
+          this.invalidateCache(event.result.directory, true);
 
-        returnValue.result &&
-          returnValue.result.destDirectory &&
-          this.purgeCache(returnValue.result.destDirectory);
+        (event.type === OPERATION.MOVE || event.type === OPERATION.RENAME) && event.status === STATUS.SUCCESS &&
+          event.result.source.kind === KIND.DIRECTORY &&
+          this.invalidateCache(event.result.source as DeDirectory, true);
 
-        return returnValue;
-      }),
+        this.updateIndex(event);
+      })
+    ), this.events).pipe(
       share()
     );
 
@@ -162,111 +263,1256 @@ export class DeFileManager {
       prefix: false
     });
 
-    this.index = {}
-
     this.rootDir = new DeDirectory({
       name: addrWithoutPrefix, // do-not-change: heavy dependency
       storagePath: addrWithoutPrefix,
       isFile: false,
     }, this);
+
+    this.index = new PathTrie();
+    this.index.set(this.rootDir.path, this.rootDir);
+
+    this.restoring = this.restoreIndex();
+  }
+
+  /**
+   * Serve listings of the directory index until loaded again, revalidated one after another in the background
+   * listings of removed directories are dropped, revalidation stops while offline and is left to reads
+   */
+  private async restoreIndex() {
+    const paths = await this.cache.restore(this.rootDir.name).catch(() => [] as string[]);
+    (async () => {
+      for (const path of paths) {
+        try {
+          await this.fetchDirectory(path);
+        } catch (err) {
+          if (isOffline(err)) return;
+          (err instanceof PathNotFoundError) && this.cache.invalidate(path, true);
+        }
+      }
+    })();
   }
 
   isRootDir(directory: DeDirectory) {
     return directory.path === "";
   }
 
-  indexDirectory(directory: DeDirectory) {
-    this.index[directory.path] = directory;
+  indexEntry(entry: FileOrDir) {
+    this.index.set(entry.path, entry);
   }
 
-  absolutePath(fileOrDir: FileOrDir): string {
+  /**
+   * Remove an entry from the index, with the contents of a directory
+   * @param entry 
+   */
+  private unindexEntry(entry: FileOrDir) {
+    // the root directory stays indexed
+    entry.path && this.index.delete(entry.path);
+  }
 
-    if (fileOrDir.kind === KIND.FILE) {
-      return this.rootDir.name + '/' + fileOrDir.path;
-    }
-    if (fileOrDir.kind === KIND.DIRECTORY) {
-      return this.isRootDir(fileOrDir as DeDirectory)
-        ? this.rootDir.name
-        : this.rootDir.name + '/' + fileOrDir.path;
+  /**
+   * Index entries created, and unindex ones removed, by a completed operation
+   * @param event 
+   */
+  private updateIndex(event: OperationEvent) {
+    if (event.status !== STATUS.SUCCESS) return;
+    switch (event.type) {
+      case OPERATION.CREATE_DIRECTORY:
+        this.indexEntry(event.result.directory);
+        break;
+      case OPERATION.UPLOAD_FILE:
+        this.indexEntry(event.result.file);
+        break;
+      case OPERATION.DELETE_FILE:
+        this.unindexEntry(event.result.file);
+        break;
+      case OPERATION.DELETE_DIRECTORY:
+        this.unindexEntry(event.result.directory);
+        break;
+      case OPERATION.MOVE:
+      case OPERATION.RENAME:
+        this.unindexEntry(event.result.source);
+        this.indexEntry(event.result.entry);
+        break;
+      case OPERATION.COPY:
+        this.indexEntry(event.result.entry);
+        break;
     }
-    return '';
   }
 
-  private purgeCache(directory?: DeDirectory, reload = true) {
-    let path = directory && this.absolutePath(directory);
-    if (path) {
-      delete this.cache[path];
-      this.loadDirectory(path);
+  /**
+   * Indexed files and directories within a directory, parents before their contents, without loading listings
+   * entries are indexed once listed, ex: by preloadDirectories, and by completed operations
+   * @param directory 
+   */
+  indexedEntries(directory: DeDirectory = this.rootDir): FileOrDir[] {
+    return this.index.subtree(directory.path).filter(entry => entry !== directory);
+  }
+
+  /**
+   * Indexed files and directories with paths starting with prefix, with their contents
+   * ex: "photos/20" matches "photos/2021" and "photos/2022/a.png"
+   * @param prefix relative path
+   */
+  indexedByPrefix(prefix: string): FileOrDir[] {
+    return this.index.withPrefix(prefix).filter(entry => entry !== this.rootDir);
+  }
+
+  /**
+   * Path of a named entry within directory, relative to address
+   * @param directory 
+   * @param name 
+   */
+  childPath(directory: DeDirectory, name: string): RelativePath {
+    return DePath.from(directory.path).child(name).toString();
+  }
+
+  /**
+   * Storage path of a file or directory, within the address home
+   * @param fileOrDir 
+   */
+  absolutePath(fileOrDir: FileOrDir): string {
+    return DePath.from(fileOrDir.path).toStoragePath(this.rootDir.name);
+  }
+
+  /**
+   * Drop cached listing of a directory, loaded again once read
+   * @param directory all listings if not given
+   * @param subtree with listings of its descendants
+   */
+  invalidateCache(directory?: DeDirectory, subtree: boolean = false) {
+    if (directory) {
+      this.cache.invalidate(this.absolutePath(directory), subtree);
     } else {
-      this.cache = {};
-      this.preloadDirectories(this.rootDir);
+      this.cache.clear();
     }
-    // console.log("filemanager::purgeCache:path", path);
   }
 
-  private async queueOp(
-    key: string,
-    taskPromise: () => Promise<any>,
-    onSuccess?: (res: any) => OperationEvent['result'],
-    onError?: (res: any) => OperationEvent['result']
-  ): Promise<OperationEvent> {
+  /**
+   * Schedule an operation, settled with its event once completed
+   * rejected with the event of failed or cancelled operations
+   * transient failures are retried with backoff as by retry policy, emitting retrying events
+   * operations failed while offline are attempted again once back online
+   * lifecycle is emitted on bus: queued, started, sent, mined and confirmed per transaction, then final status
+   * operations succeed once their transactions are confirmed
+   * @param key see OPERATION
+   * @param taskPromise called per attempt, from 1, resumed once an earlier call was interrupted by a failure or going offline
+   * @param onSuccess 
+   * @param onError also for cancellation and retries
+   * @param options paths written by the operation, relative to signer address, abort signal
+   * and arguments to persist in the journal until completed
+   */
+  private async queueOp<T extends OperationType, R>(
+    key: T,
+    taskPromise: (id: string, signal: AbortSignal, attempt: number, resumed: boolean) => Promise<R>,
+    onSuccess: (res: R) => OperationResults[T]['success'],
+    onError: (err: DeFileManagerError) => OperationResults[T]['error'],
+    { paths = [], signal, journal }: { paths?: RelativePath[], signal?: AbortSignal, journal?: JournalParams } = {}
+  ): Promise<OperationSuccess<T>> {
     const id = nanoid();
-    this.store.next(of(() => (
-      taskPromise()
-        .then((res: any) => {
-          return {
-            id,
-            type: key,
-            status: 'success',
-            result: onSuccess && onSuccess(res)
-          } as OperationEvent
-        }).catch((err: any) => {
-          return {
-            id,
-            type: key,
-            status: 'error',
-            result: onError && onError(err)
-          } as OperationEvent
-        })
-    )));
-    return new Promise((resolve, reject) => {
-      const subscription = this.bus.subscribe((event: any) => {
+    const journaled = journal
+      ? this.journal.set(id, {
+        id,
+        type: key,
+        signer: this.account || "",
+        params: journal,
+        createdAt: Date.now()
+      })
+      : Promise.resolve();
+    // failures surface once the task starts, cancelled operations never await it
+    journaled.catch(() => undefined);
+    const controller = new AbortController();
+    const operation: TrackedOperation = { type: key, controller, confirmations: [] };
+    this.operations.set(id, operation);
+    if (signal) {
+      signal.aborted
+        ? controller.abort()
+        : signal.addEventListener('abort', () => this.cancel(id), { once: true });
+    }
+
+    const settled = new Promise<OperationSuccess<T>>((resolve, reject) => {
+      const subscription = this.bus.subscribe((event) => {
         if ((event.id === id)) {
-          if (event.status === 'success') {
+          if (event.status === STATUS.SUCCESS) {
             subscription.unsubscribe();
-            return resolve(event);
+            return resolve(event as OperationSuccess<T>);
           }
-          if (event.status === 'error') {
+          if (event.status === STATUS.ERROR || event.status === STATUS.CANCELLED) {
             subscription.unsubscribe();
             return reject(event);
           }
         }
       })
     });
+    this.emit(id, key, STATUS.QUEUED);
+    this.scheduler.schedule({
+      id,
+      key,
+      priority: this.priorities[key] ?? PRIORITY.NORMAL,
+      paths,
+      run: () => (
+        (async () => {
+          // persisted before any transaction of the operation, unless cancelled already
+          throwIfCancelled(controller.signal);
+          await journaled;
+          let resumed = false;
+          for (let attempt = 1; ; attempt++) {
+            throwIfCancelled(controller.signal);
+            attempt === 1 && this.emit(id, key, STATUS.STARTED);
+            operation.confirmations = [];
+            try {
+              const result = await taskPromise(id, controller.signal, attempt, resumed);
+              await Promise.all(operation.confirmations);
+              return result;
+            } catch (err) {
+              resumed = true;
+              if (isOffline(err) && !controller.signal.aborted) {
+                // not counted as an attempt
+                await this.whenOnline(controller.signal);
+                attempt--;
+                continue;
+              }
+              if (attempt >= this.retry.attempts
+                || controller.signal.aborted
+                || !this.retry.retryable(err)) {
+                throw err;
+              }
+              const delay = backoff(this.retry, attempt);
+              this.emit(id, key, STATUS.RETRYING, {
+                ...onError(toDeFileManagerError(err)),
+                attempt,
+                attempts: this.retry.attempts,
+                delay
+              });
+              await wait(delay, controller.signal);
+            }
+          }
+        })()
+          .then((res) => {
+            return {
+              id,
+              type: key,
+              status: STATUS.SUCCESS,
+              result: onSuccess(res)
+            } as OperationEventOf<T> as OperationEvent
+          }).catch((err: any) => {
+            const error = toDeFileManagerError(err);
+            return {
+              id,
+              type: key,
+              status: (error instanceof CancelledError) ? STATUS.CANCELLED : STATUS.ERROR,
+              result: onError(error)
+            } as OperationEventOf<T> as OperationEvent
+          }).finally(async () => {
+            this.operations.delete(id);
+            // an entry left behind is replayed without effect
+            journal && await this.journal.delete(id).catch(() => undefined);
+          })
+      )
+    });
+    return settled;
+  }
+
+  /**
+   * Cancel a scheduled operation, emitting its event with cancelled status
+   * pending operations are removed, running ones stop before their next transaction
+   * and partially written files are deleted
+   * @param id of the operation, as in its events
+   * @returns false when the operation is unknown or already completed
+   */
+  cancel(id: string): boolean {
+    const operation = this.operations.get(id);
+    if (!operation) return false;
+    operation.controller.abort();
+    const task = this.scheduler.remove(id);
+    // settles right away as cancelled, without side effects
+    task && task.run().then(event => this.events.next(event));
+    return true;
+  }
+
+  /**
+   * Pause the queue until the chain is reachable again, checked at the reconnect interval
+   * @param signal stops waiting once aborted
+   */
+  private whenOnline(signal?: AbortSignal): Promise<void> {
+    if (!this.reconnecting) {
+      this.scheduler.pause();
+      this.online.next(false);
+      this.reconnecting = (async () => {
+        do {
+          await wait(this.reconnectInterval);
+        } while (!(await this.backend.isOnline().catch(() => false)));
+        this.reconnecting = undefined;
+        this.online.next(true);
+        this.scheduler.resume();
+      })();
+    }
+    const reconnecting = this.reconnecting;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new CancelledError());
+      if (signal) {
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+      reconnecting.then(() => {
+        signal && signal.removeEventListener('abort', onAbort);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Emit an intermediate event of an operation
+   * @param id 
+   * @param type see OPERATION
+   * @param status see STATUS
+   * @param result 
+   */
+  private emit<T extends OperationType, S extends OperationStatus>(
+    id: string,
+    type: T,
+    status: S,
+    result?: OperationEventOf<T, S>['result']
+  ) {
+    this.events.next({
+      id,
+      type,
+      status,
+      result
+    } as OperationEventOf<T, S> as OperationEvent);
+  }
+
+  private emitProgress<T extends OperationType>(id: string, type: T, result: OperationEventOf<T, typeof STATUS.PROGRESS>['result']) {
+    this.emit(id, type, STATUS.PROGRESS, result);
+  }
+
+  /**
+   * Events of an operation kind on bus, optionally of given statuses
+   * @param type see OPERATION
+   * @param statuses see STATUS
+   */
+  observe<T extends OperationType, S extends OperationStatus = OperationStatus>(
+    type: T,
+    ...statuses: S[]
+  ): Observable<OperationEventOf<T, S>> {
+    return this.bus.pipe(
+      filter((event) => event.type === type
+        && (!statuses.length || (statuses as OperationStatus[]).includes(event.status)))
+    ) as Observable<OperationEventOf<T, S>>;
+  }
+
+  /**
+   * Handle events of an operation kind on bus, optionally of a status
+   * ex: fm.on(OPERATION.UPLOAD_FILE, STATUS.PROGRESS, ({ result }) => result.progress.loaded)
+   * @param type see OPERATION
+   * @param status see STATUS
+   * @param handler 
+   * @returns subscription, unsubscribe to stop handling
+   */
+  on<T extends OperationType>(type: T, handler: (event: OperationEventOf<T>) => void): Subscription;
+  on<T extends OperationType, S extends OperationStatus>(type: T, status: S, handler: (event: OperationEventOf<T, S>) => void): Subscription;
+  on<T extends OperationType, S extends OperationStatus>(
+    type: T,
+    statusOrHandler: S | ((event: OperationEventOf<T>) => void),
+    handler?: (event: OperationEventOf<T, S>) => void
+  ): Subscription {
+    if (typeof statusOrHandler === 'function') {
+      return this.observe(type).subscribe(statusOrHandler);
+    }
+    return this.observe(type, statusOrHandler).subscribe(handler);
+  }
+
+  /**
+   * Emit lifecycle of a transaction sent by an operation
+   * mined transactions are confirmed in the background, awaited before the operation succeeds
+   * @param id of the operation
+   * @param transaction 
+   */
+  private onTransaction(id: string, transaction: TransactionState) {
+    const operation = this.operations.get(id);
+    if (!operation) return;
+    this.ownTransactions && this.ownTransactions.add(transaction.hash);
+    this.emit(id, operation.type, transaction.status, { transaction });
+    if (transaction.status === STATUS.MINED) {
+      const confirmation = this.confirm(transaction).then((confirmed) => {
+        this.emit(id, operation.type, STATUS.CONFIRMED, { transaction: confirmed });
+      });
+      // failure is handled once awaited by the operation
+      confirmation.catch(() => undefined);
+      operation.confirmations.push(confirmation);
+    }
+  }
+
+  /**
+   * Wait until the chain is past the block of a mined transaction by confirmations option
+   * @param transaction 
+   */
+  private async confirm(transaction: TransactionState): Promise<TransactionState> {
+    const minedIn = transaction.blockNumber || 0;
+    let confirmations = 1;
+    while (confirmations < this.confirmations) {
+      await wait(CONFIRMATION.INTERVAL);
+      confirmations = (await this.backend.getBlockNumber()) - minedIn + 1;
+    }
+    return { ...transaction, status: STATUS.CONFIRMED, confirmations };
+  }
+
+  /**
+   * Follow changes on chain by other clients, or other instances of the signer, from the next block on
+   * changed directories of the address are loaded again, changes are emitted on bus with status observed
+   * shared by callers, unsubscribing stops it for all
+   * @returns subscription, unsubscribe to stop
+   */
+  watchChain(): Subscription {
+    if (this.chainWatch && !this.chainWatch.closed) return this.chainWatch;
+
+    let lastBlock: number | undefined;
+    this.ownTransactions = new Set();
+    this.chainWatch = this.blocks.pipe(
+      concatMap(async (blockNumber) => {
+        if (lastBlock === undefined || blockNumber <= lastBlock) {
+          lastBlock = blockNumber;
+          return;
+        }
+        if (blockNumber - lastBlock > CHAIN_WATCH.MAX_BLOCKS) {
+          // changes are not known in full, listings are loaded again
+          this.invalidateCache();
+        } else {
+          // blocks are scanned again with the next one on failure
+          const changes = await this.backend.getChanges(lastBlock + 1, blockNumber).catch(() => undefined);
+          if (!changes) return;
+          this.observeChanges(changes);
+        }
+        lastBlock = blockNumber;
+      })
+    ).subscribe();
+    this.chainWatch.add(() => {
+      this.ownTransactions = undefined;
+    });
+    return this.chainWatch;
+  }
+
+  /**
+   * Invalidate listings of changed directories and emit changes of others on bus
+   * content is followed in the address only, space reservations for the address, roles of all accounts
+   * @param changes
+   */
+  private observeChanges(changes: ContractChange[]) {
+    let directories = new Set<RelativePath>();
+    for (const { storagePath, ...change } of changes) {
+      // completed on bus by its operation
+      if (this.ownTransactions && this.ownTransactions.delete(change.transaction.hash)) continue;
+      const type = CHANGE_OPERATION[change.event];
+      if (!type) continue;
+      let result: ObservedChange = change;
+      if (storagePath) {
+        const [home] = storagePath.split('/');
+        if (home !== this.rootDir.name) continue;
+        const changed = DePath.fromStoragePath(storagePath);
+        const path = changed.toString();
+        const directory = changed.parent.toString();
+        result = { ...change, path, directory };
+        directories.add(directory);
+        if (change.event === TRANSACTION.DELETE_DIRECTORY) {
+          this.cache.invalidate(storagePath, true);
+        }
+        if (change.event === TRANSACTION.DELETE_DIRECTORY || change.event === TRANSACTION.DELETE_FILE) {
+          this.index.delete(path);
+        }
+      } else if (type === OPERATION.RESERVE_SPACE && change.account !== this.address) {
+        continue;
+      }
+      this.emit(change.transaction.hash, type, STATUS.OBSERVED, result);
+    }
+    directories.forEach((path) => {
+      this.cache.invalidate(DePath.from(path).toStoragePath(this.rootDir.name));
+    });
+  }
+
+  /**
+   * Signer of transactional operations
+   * @param id of the operation sending transactions, for their lifecycle events
+   */
+  private signer(id?: string): Signer {
+    if (!this.account)
+      throw new NoAccountError();
+    return {
+      address: this.account,
+      privateKey: this.accountPrivateKey,
+      onTransaction: id ? (transaction) => this.onTransaction(id, transaction) : undefined
+    };
+  }
+
+  /**
+   * Max chunk size in bytes accepted by the backend per uploadChunk
+   */
+  async getMaxChunkSize(): Promise<number> {
+    return this.backend.getMaxChunkSize();
+  }
+
+  /**
+   * Check an operation against contract limits and space of the signer, without sending transactions
+   * throws the typed error the contract would otherwise revert with
+   * queued operations are checked once they start, when preflight is enabled
+   * @param operation 
+   */
+  async validate(operation: PreflightOperation): Promise<void> {
+    const signer = this.signer();
+    const { type, destDirectory, name, size = 0, resumable = false } = operation;
+
+    if (!DePath.isValidName(name))
+      throw new InvalidPathError();
+
+    const entries = await this.loadDirectory(DePath.from(destDirectory.path).toStoragePath(signer.address), true)
+      .catch((err: DeFileManagerError) => {
+        if (err.code === ERROR_CODE.CONTRACT_REVERT) {
+          throw new PathNotFoundError({ cause: err.cause, reason: err.reason });
+        }
+        throw err;
+      });
+
+    const [maxContentCount, maxFileSize, reserved, occupied] = await Promise.all([
+      this.backend.getMaxContentCount(),
+      this.backend.getMaxFileSize(),
+      this.backend.getReservedSpace(signer.address),
+      this.backend.getOccupiedSpace(signer.address),
+    ]);
+
+    const existing = entries.find(entry => entry.name === name);
+    const isResumed = !!existing && existing.isFile && resumable && type === OPERATION.UPLOAD_FILE;
+
+    if (existing && !isResumed)
+      throw new AlreadyExistsError();
+    if (!existing && entries.length >= maxContentCount)
+      throw new DirectoryFullError();
+    if (type === OPERATION.UPLOAD_FILE && size > maxFileSize)
+      throw new FileTooLargeError();
+
+    // a resumed upload already occupies its size
+    const resumedSize = isResumed ? (existing as FileStorageFile).size : 0;
+    if (size && occupied - resumedSize + size > reserved)
+      throw new InsufficientSpaceError();
+  }
+
+  /**
+   * Contents of a file object
+   * @param file 
+   */
+  private async fileBuffer(file: FileLike): Promise<Buffer> {
+    if (file.buffer) {
+      return file.buffer();
+    }
+    if (file.arrayBuffer) {
+      return Buffer.from(await file.arrayBuffer());
+    }
+    throw new DeFileManagerError();
+  }
+
+  /**
+   * Contract transactions of a planned operation, as they would be sent
+   * @param operation 
+   */
+  private async plannedTransactions(
+    operation: PlannedOperation
+  ): Promise<Array<[TransactionMethod, TransactionArgument[]]>> {
+    const { type, path } = operation;
+    switch (type) {
+      case OPERATION.CREATE_DIRECTORY:
+        return [[TRANSACTION.CREATE_DIRECTORY, [path]]];
+      case OPERATION.DELETE_DIRECTORY:
+        return [[TRANSACTION.DELETE_DIRECTORY, [path]]];
+      case OPERATION.DELETE_FILE:
+        return [[TRANSACTION.DELETE_FILE, [path]]];
+      case OPERATION.UPLOAD_FILE:
+        {
+          if (!operation.file)
+            throw new DeFileManagerError();
+          const buffer = await this.fileBuffer(operation.file);
+          const chunkSize = await this.getMaxChunkSize();
+          let transactions: Array<[TransactionMethod, TransactionArgument[]]> = [
+            [TRANSACTION.START_UPLOAD, [path, buffer.length]]
+          ];
+          for (let position = 0; position < buffer.length; position += chunkSize) {
+            transactions.push([
+              TRANSACTION.UPLOAD_CHUNK,
+              [path, position, buffer.slice(position, position + chunkSize)]
+            ]);
+          }
+          transactions.push([TRANSACTION.FINISH_UPLOAD, [path]]);
+          return transactions;
+        }
+      default:
+        throw new DeFileManagerError(ERROR_CODE.UNKNOWN, `Operation ${type} cannot be estimated`);
+    }
+  }
+
+  /**
+   * Estimate gas and cost of a plan of operations, without sending transactions
+   * transactions depending on earlier ones of the plan, ex: chunks of a file not yet started,
+   * may revert in estimation against current state and are counted at their gas limit instead
+   * @param operations 
+   */
+  async estimate(operations: PlannedOperation[]): Promise<PlanEstimate> {
+    const signer = this.signer();
+
+    const estimateTransaction = async (
+      method: TransactionMethod,
+      args: TransactionArgument[]
+    ): Promise<{ gas: number, exact: boolean }> => {
+      try {
+        return { gas: await this.backend.estimateGas(signer, method, args), exact: true };
+      } catch (err) {
+        const error = toDeFileManagerError(err);
+        if (error.code === ERROR_CODE.OFFLINE)
+          throw error;
+        return {
+          gas: (method === TRANSACTION.UPLOAD_CHUNK) ? GAS.UPLOAD_CHUNK : GAS.STANDARD,
+          exact: false
+        };
+      }
+    };
+
+    // chunks of equal length cost the same, by length
+    let chunkEstimates: { [length: number]: { gas: number, exact: boolean } } = {};
+
+    let estimates: OperationEstimate[] = [];
+    for (const operation of operations) {
+      const transactions = await this.plannedTransactions(operation);
+      let estimate: OperationEstimate = {
+        type: operation.type,
+        path: operation.path,
+        transactions: transactions.length,
+        bytes: 0,
+        gas: 0,
+        exact: true
+      };
+      for (const [method, args] of transactions) {
+        let result;
+        if (method === TRANSACTION.UPLOAD_CHUNK) {
+          const length = (args[2] as Buffer).length;
+          estimate.bytes += length;
+          result = chunkEstimates[length] || await estimateTransaction(method, args);
+          chunkEstimates[length] = result;
+        } else {
+          result = await estimateTransaction(method, args);
+        }
+        estimate.gas += result.gas;
+        estimate.exact = estimate.exact && result.exact;
+      }
+      estimates.push(estimate);
+    }
+
+    const gas = estimates.reduce((total, estimate) => total + estimate.gas, 0);
+    const gasPrice = await this.backend.getGasPrice();
+    return {
+      operations: estimates,
+      transactions: estimates.reduce((total, estimate) => total + estimate.transactions, 0),
+      bytes: estimates.reduce((total, estimate) => total + estimate.bytes, 0),
+      gas,
+      gasPrice,
+      cost: gasCost(gas, gasPrice),
+      exact: estimates.every(estimate => estimate.exact)
+    };
+  }
+
+  /**
+   * Send a transaction of the signer through the pool, see TransactionPool
+   * @param transaction 
+   */
+  private transact<T>(transaction: () => Promise<T>): Promise<T> {
+    return this.transactions.send(transaction);
+  }
+
+  /**
+   * Send chunks of a started upload, in packets of the MTM limit
+   * members failed within a packet are sent again unless they landed meanwhile
+   * @param signer 
+   * @param path file path relative to signer address
+   * @param size of the file
+   * @param chunks indexes of chunks to send
+   * @param read content at position
+   * @param onChunk called after each chunk lands
+   * @param signal stops before the next chunk once aborted
+   */
+  private async sendChunks(
+    signer: Signer,
+    path: string,
+    size: number,
+    chunks: number[],
+    read: (position: number, length: number) => Promise<Buffer>,
+    onChunk: (chunk: number, length: number) => Promise<void> | void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const storagePath = DePath.from(path).toStoragePath(signer.address);
+    const chunkSize = await this.getMaxChunkSize();
+    const packetSize = this.mtm || 1;
+    const retries = this.mtm ? MTM.RETRIES : 0;
+    const chunkLength = (chunk: number) => Math.min(chunkSize, size - chunk * chunkSize);
+
+    for (let i = 0; i < chunks.length; i += packetSize) {
+      let packet = chunks.slice(i, i + packetSize);
+      for (let attempt = 0; packet.length; attempt++) {
+        const results = await Promise.allSettled(packet.map(async (chunk) => {
+          throwIfCancelled(signal);
+          const position = chunk * chunkSize;
+          const data = await read(position, chunkLength(chunk));
+          await this.transact(() => this.backend.uploadChunk(signer, path, position, data));
+          await onChunk(chunk, data.length);
+        }));
+
+        // members in flight have settled
+        throwIfCancelled(signal);
+
+        const failed = packet.filter((_, j) => results[j].status === 'rejected');
+        if (failed.length && attempt >= retries) {
+          throw (results.find(result => result.status === 'rejected') as PromiseRejectedResult).reason;
+        }
+        if (!failed.length) break;
+
+        // a member may land without its receipt received
+        const landed = await this.backend.uploadedChunks(storagePath);
+        for (const chunk of failed.filter(chunk => landed[chunk])) {
+          await onChunk(chunk, chunkLength(chunk));
+        }
+        packet = failed.filter(chunk => !landed[chunk]);
+      }
+    }
+  }
+
+  /**
+   * Delete the partial file of a cancelled upload, then rethrow
+   * @param signer 
+   * @param path file path relative to signer address
+   * @param err 
+   */
+  private async discardCancelled(signer: Signer, path: string, err: any): Promise<never> {
+    if (err instanceof CancelledError) {
+      await this.transact(() => this.backend.deleteFile(signer, path));
+    }
+    throw err;
+  }
+
+  /**
+   * Upload buffer in chunks using startUpload, uploadChunk and finishUpload
+   * resumable uploads persist landed chunks as a session, and skip them on the next attempt
+   * cancelled uploads stop between chunks and are deleted, sessions included
+   * @param signer 
+   * @param path file path relative to signer address
+   * @param buffer 
+   * @param onProgress called after each chunk lands
+   * @param resumable 
+   * @param signal 
+   * @returns storage path of the uploaded file
+   */
+  private async uploadChunks(
+    signer: Signer,
+    path: string,
+    buffer: Buffer,
+    onProgress?: (progress: UploadProgress) => void,
+    resumable: boolean = false,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const storagePath = DePath.from(path).toStoragePath(signer.address);
+    const chunkSize = await this.getMaxChunkSize();
+    const total = buffer.length;
+    const chunks = Math.ceil(total / chunkSize);
+
+    let session: UploadSession = {
+      id: storagePath,
+      path,
+      size: total,
+      hash: contentHash(buffer),
+      chunkSize,
+      chunks: new Array(chunks).fill(false),
+      updatedAt: Date.now()
+    };
+
+    let status = FILE_STATUS.NO_EXIST;
+
+    if (resumable) {
+      status = await this.backend.getFileStatus(storagePath);
+      const previous = await this.uploadSessions.get(session.id);
+      // chunks of another content are not mixed in, even of the same size
+      const isSameUpload = previous
+        && previous.size === total
+        && previous.hash === session.hash
+        && previous.chunkSize === chunkSize;
+
+      if (status === FILE_STATUS.UPLOADED) {
+        await this.uploadSessions.delete(session.id);
+        // finished by an earlier run of this upload or of the same contents, otherwise an existing file is not overwritten
+        if ((isSameUpload && previous.chunks.every(Boolean)) || (
+          (await this.backend.getFileSize(storagePath)) === total
+          && contentHash(await this.backend.download(storagePath)) === session.hash
+        )) {
+          return storagePath;
+        }
+        throw new AlreadyExistsError();
+      }
+
+      if (status === FILE_STATUS.CREATED) {
+        if (isSameUpload) {
+          const landed = await this.backend.uploadedChunks(storagePath);
+          session.chunks = session.chunks.map((_, i) => !!(landed[i] || previous.chunks[i]));
+        } else {
+          // partial upload of unknown origin, start over
+          await this.transact(() => this.backend.deleteFile(signer, path));
+          status = FILE_STATUS.NO_EXIST;
+        }
+      }
+    }
+
+    throwIfCancelled(signal);
+
+    if (status !== FILE_STATUS.CREATED) {
+      await this.transact(() => this.backend.startUpload(signer, path, total));
+    }
+
+    resumable && await this.uploadSessions.set(session.id, session);
+
+    const loadedBytes = () => session.chunks.reduce(
+      (loaded, isUploaded, i) => loaded + (isUploaded ? Math.min(chunkSize, total - i * chunkSize) : 0),
+      0
+    );
+
+    const missing = session.chunks
+      .map((isUploaded, chunk) => isUploaded ? -1 : chunk)
+      .filter(chunk => chunk >= 0);
+
+    try {
+      await this.sendChunks(signer, path, total, missing,
+        async (position, length) => buffer.slice(position, position + length),
+        async (chunk) => {
+          session.chunks[chunk] = true;
+          session.updatedAt = Date.now();
+          resumable && await this.uploadSessions.set(session.id, session);
+          onProgress && onProgress({
+            loaded: loadedBytes(),
+            total,
+            chunk: session.chunks.filter(Boolean).length,
+            chunks
+          });
+        },
+        signal
+      );
+      throwIfCancelled(signal);
+    } catch (err) {
+      (err instanceof CancelledError) && resumable && await this.uploadSessions.delete(session.id);
+      await this.discardCancelled(signer, path, err);
+    }
+
+    await this.transact(() => this.backend.finishUpload(signer, path));
+
+    resumable && await this.uploadSessions.delete(session.id);
+
+    return storagePath;
+  }
+
+  /**
+   * Copy file contents chunk by chunk into a new path, verified once finished by status, size and contents
+   * @param signer 
+   * @param source 
+   * @param path destination path relative to signer address
+   * @param onBytes called with byte count of each chunk written
+   * @param signal 
+   */
+  private async copyFileContents(
+    signer: Signer,
+    source: DeFile,
+    path: string,
+    onBytes?: (bytes: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const storagePath = DePath.from(path).toStoragePath(signer.address);
+    const chunkSize = await this.getMaxChunkSize();
+
+    await this.transact(() => this.backend.startUpload(signer, path, source.size));
+    try {
+      await this.sendChunks(signer, path, source.size,
+        Array.from({ length: Math.ceil(source.size / chunkSize) }, (_, chunk) => chunk),
+        (position, length) => this.readChunk(source, position, length),
+        (chunk, length) => onBytes && onBytes(length),
+        signal
+      );
+      throwIfCancelled(signal);
+    } catch (err) {
+      await this.discardCancelled(signer, path, err);
+    }
+    await this.transact(() => this.backend.finishUpload(signer, path));
+
+    const [status, size] = await Promise.all([
+      this.backend.getFileStatus(storagePath),
+      this.backend.getFileSize(storagePath),
+    ]);
+    if (status !== FILE_STATUS.UPLOADED || size !== source.size) {
+      throw new VerificationError();
+    }
+    // contents are read back against the source, chunk by chunk
+    for (let position = 0; position < size; position += chunkSize) {
+      const length = Math.min(chunkSize, size - position);
+      const [expected, copied] = await Promise.all([
+        this.readChunk(source, position, length),
+        this.backend.readChunk(storagePath, position, length),
+      ]);
+      if (!expected.equals(copied)) {
+        throw new VerificationError();
+      }
+    }
+    return storagePath;
+  }
+
+  /**
+   * Recreate a file or directory tree at a new path, directories before their contents
+   * failures are recorded per entry and do not stop the rest, unlike cancellation
+   * @param signer 
+   * @param source 
+   * @param path destination path relative to signer address
+   * @param results 
+   * @param onBytes 
+   * @param signal 
+   * @param resumed takes over entries copied by an interrupted run, in full or partially
+   */
+  private async copyTree(
+    signer: Signer,
+    source: FileOrDir,
+    path: string,
+    results: TransferResult[],
+    onBytes?: (bytes: number) => void,
+    signal?: AbortSignal,
+    resumed: boolean = false
+  ): Promise<void> {
+    throwIfCancelled(signal);
+    const storagePath = DePath.from(path).toStoragePath(signer.address);
+    try {
+      if (source.kind === KIND.FILE) {
+        const { size } = source as DeFile;
+        const status = resumed ? await this.backend.getFileStatus(storagePath) : FILE_STATUS.NO_EXIST;
+        if (status === FILE_STATUS.UPLOADED && (await this.backend.getFileSize(storagePath)) === size) {
+          onBytes && onBytes(size);
+        } else {
+          status === FILE_STATUS.CREATED && await this.transact(() => this.backend.deleteFile(signer, path));
+          await this.copyFileContents(signer, source as DeFile, path, onBytes, signal);
+        }
+      } else {
+        await this.transact(() => this.backend.createDirectory(signer, path)).catch((err) => {
+          if (!resumed || toDeFileManagerError(err).code !== ERROR_CODE.ALREADY_EXISTS) throw err;
+        });
+      }
+      results.push({ source, storagePath, status: STATUS.SUCCESS });
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      // contents of a failed directory are skipped
+      results.push({ source, storagePath, status: STATUS.ERROR, error: toDeFileManagerError(error) });
+      return;
+    }
+    if (source.kind === KIND.DIRECTORY) {
+      for await (const entry of (source as DeDirectory).entries()) {
+        await this.copyTree(signer, entry, DePath.from(path).child(entry.name).toString(), results, onBytes, signal, resumed);
+      }
+    }
+  }
+
+  /**
+   * Delete a file or directory tree, contents before their directories
+   * @param signer 
+   * @param entry 
+   */
+  private async removeTree(signer: Signer, entry: FileOrDir): Promise<void> {
+    if (entry.kind === KIND.FILE) {
+      await this.transact(() => this.backend.deleteFile(signer, entry.path));
+      return;
+    }
+    for await (const child of (entry as DeDirectory).entries()) {
+      await this.removeTree(signer, child);
+    }
+    await this.transact(() => this.backend.deleteDirectory(signer, entry.path));
+    this.unindexEntry(entry);
+  }
+
+  /**
+   * Total bytes of files in a file or directory tree
+   * @param entry 
+   */
+  private async treeSize(entry: FileOrDir): Promise<number> {
+    if (entry.kind === KIND.FILE) {
+      return (entry as DeFile).size;
+    }
+    let size = 0;
+    for await (const child of (entry as DeDirectory).entries()) {
+      size += await this.treeSize(child);
+    }
+    return size;
+  }
+
+  /**
+   * Upload sessions of the signer left incomplete, to be resumed with resumeUpload
+   */
+  async pendingUploads(): Promise<UploadSession[]> {
+    const home = DePath.ROOT.toStoragePath(this.account || "");
+    let sessions: UploadSession[] = [];
+    for (const key of await this.uploadSessions.keys()) {
+      const session = await this.uploadSessions.get(key);
+      if (session && key.startsWith(home + '/')) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Operations of the signer left in the journal, ex: by a crash, in order of submission
+   * includes operations queued by this instance until they complete
+   */
+  async pendingOperations(): Promise<JournalEntry[]> {
+    if (!this.account) return [];
+    let entries: JournalEntry[] = [];
+    for (const key of await this.journal.keys()) {
+      const entry = await this.journal.get(key);
+      if (entry && entry.signer.toLowerCase() === this.account.toLowerCase()) {
+        entries.push(entry);
+      }
+    }
+    return sortBy(entries, 'createdAt');
+  }
+
+  /**
+   * Record progress of a journaled operation
+   * @param id 
+   * @param params 
+   */
+  private async updateJournal(id: string, params: JournalParams) {
+    const entry = await this.journal.get(id);
+    entry && await this.journal.set(id, { ...entry, params: { ...entry.params, ...params } });
+  }
+
+  /**
+   * Queue again operations left in the journal by another instance, one after another in order of submission
+   * effects already on chain are not repeated, ex: an existing directory is not created again
+   * @param files content of uploads by path relative to signer address, uploads without content stay in the journal
+   * @returns events of operations queued again, including failed ones
+   * @throws OfflineError when the chain is unreachable, remaining entries are kept
+   */
+  async replay(files?: (path: RelativePath) => Promise<FileLike | undefined>): Promise<OperationEvent[]> {
+    let events: OperationEvent[] = [];
+    for (const entry of await this.pendingOperations()) {
+      // queued by this instance
+      if (this.operations.has(entry.id)) continue;
+      const replayed = await this.replayEntry(entry, files).catch((err) => {
+        // kept for a later replay
+        if (isOffline(err)) throw err;
+        return [{
+          id: entry.id,
+          type: entry.type,
+          status: STATUS.ERROR,
+          result: { error: toDeFileManagerError(err) }
+        } as OperationEvent];
+      });
+      if (!replayed) continue;
+      events.push(...replayed);
+      await this.journal.delete(entry.id);
+    }
+    return events;
+  }
+
+  /**
+   * Queue operations to complete a journal entry, up to their completion
+   * @param entry 
+   * @param files 
+   * @returns events of queued operations, undefined when the entry cannot be replayed yet
+   */
+  private async replayEntry(
+    entry: JournalEntry,
+    files?: (path: RelativePath) => Promise<FileLike | undefined>
+  ): Promise<OperationEvent[] | undefined> {
+    const { path = "", destination = "", copied = false, address = "", amount = 0, role = ROLE.ALLOCATOR } = entry.params;
+    const entryPath = DePath.from(path);
+    const destinationPath = DePath.from(destination);
+
+    // operations reject with their event, others throw
+    const settle = (operation: Promise<OperationEvent>): Promise<OperationEvent> => operation.catch((err) => {
+      if (err && err.status) return err;
+      throw err;
+    });
+
+    // entry by path as on chain
+    const find = async (path: DePath): Promise<FileOrDir | undefined> => {
+      if (path.isRoot) return this.rootDir;
+      const parent = await find(path.parent);
+      if (!parent || parent.kind !== KIND.DIRECTORY) return;
+      await this.loadDirectory(this.absolutePath(parent), true);
+      for await (const child of (parent as DeDirectory).entries()) {
+        if (child.name === path.basename) return child;
+      }
+    };
+    const parentOf = async (path: DePath): Promise<DeDirectory> => {
+      const parent = await find(path.parent);
+      if (!parent || parent.kind !== KIND.DIRECTORY)
+        throw new PathNotFoundError();
+      return parent as DeDirectory;
+    };
+    const remove = (target: FileOrDir) => settle(
+      (target.kind === KIND.FILE)
+        ? this.deleteFile(target.parent as DeDirectory, target as DeFile)
+        : this.deleteDirectory(target as DeDirectory)
+    );
+
+    switch (entry.type) {
+      case OPERATION.CREATE_DIRECTORY: {
+        if (await find(entryPath)) return [];
+        return [await settle(this.createDirectory(await parentOf(entryPath), entryPath.basename))];
+      }
+      case OPERATION.DELETE_FILE:
+      case OPERATION.DELETE_DIRECTORY: {
+        const target = await find(entryPath);
+        return target ? [await remove(target)] : [];
+      }
+      case OPERATION.UPLOAD_FILE: {
+        const content = files && await files(path);
+        if (!content) {
+          const status = await this.backend.getFileStatus(entryPath.toStoragePath(entry.signer));
+          return (status === FILE_STATUS.UPLOADED) ? [] : undefined;
+        }
+        // continues from landed chunks, or completes at once when uploaded
+        return [await settle(this.uploadFile(
+          await parentOf(entryPath),
+          this.renamedFile(content, entryPath.basename),
+          { resumable: true }
+        ))];
+      }
+      case OPERATION.MOVE:
+      case OPERATION.RENAME:
+      case OPERATION.COPY: {
+        const source = await find(entryPath);
+        const removeSource = entry.type !== OPERATION.COPY;
+        if (copied) {
+          return (source && removeSource) ? [await remove(source)] : [];
+        }
+        if (!source) return [];
+        let events: OperationEvent[] = [];
+        // partially copied content is written again
+        const partial = await find(destinationPath);
+        if (partial) {
+          events.push(await remove(partial));
+        }
+        events.push(await settle(this.transfer(
+          entry.type, source, await parentOf(destinationPath), destinationPath.basename, removeSource
+        )));
+        return events;
+      }
+      case OPERATION.RESERVE_SPACE:
+        return [await settle(this.reserveSpace(address, amount))];
+      case OPERATION.GRANT_ROLE: {
+        if (await this.backend.hasRole(role, address)) return [];
+        return [await settle(this.grantRole(address, role))];
+      }
+      default:
+        return [];
+    }
   }
 
-  //@ts-ignore
-  async * entriesGenerator(directory: DeDirectory): Promise<Iterable<FileOrDir>> {
+  async * entriesGenerator(directory: DeDirectory): AsyncGenerator<FileOrDir> {
     let path = this.absolutePath(directory);
 
     // hit remote
     const entries = await this.loadDirectory(path);
 
+    // entries no longer listed are not resolved from index
+    const names = new Set(entries.map(item => item.name));
+    for (const name of this.index.children(directory.path)) {
+      names.has(name) || this.index.delete(this.childPath(directory, name));
+    }
+
     // map to iterable files & directories
     for (let i in entries) {
       let item = entries[i];
+      let entry: FileOrDir;
       // make DeFile
       if (item.isFile) {
         item = <FileStorageFile>item;
-        yield new DeFile(item as FileStorageFile, this, directory);
+        entry = new DeFile(item as FileStorageFile, this, directory);
       }
       // recursive: make DeDirectory with entries()
       else {
-        yield new DeDirectory(item as FileStorageDirectory, this, directory);
+        entry = new DeDirectory(item as FileStorageDirectory, this, directory);
       }
+      this.indexEntry(entry);
+      yield entry;
     }
   }
 
+  /**
+   * Changes of a directory by others or this instance, as added, removed or changed entries
+   * diffed between listings, the first is the baseline, listings failed while offline are skipped
+   * other failures, ex: the directory removed, are sent to the subscriber as typed errors
+   * listings update the cache of the directory
+   * ex: fm.watch(directory, { blocks: true }).subscribe(({ type, entry }) => ...)
+   * @param directory 
+   * @param options 
+   */
+  watch(directory: DeDirectory, options: WatchOptions = {}): Observable<DirectoryChange> {
+    const path = this.absolutePath(directory);
+    const ticks: Observable<unknown> = options.blocks
+      ? this.blocks
+      : timer(0, options.interval || DIRECTORY_WATCH.INTERVAL);
+
+    // baseline per subscriber
+    return defer(() => {
+      let snapshot: Map<string, FileStorageDirectory | FileStorageFile> | undefined;
+      return ticks.pipe(
+        exhaustMap(() => from(this.loadDirectory(path, true)).pipe(
+          catchError((err) => isOffline(err) ? EMPTY : throwError(() => toDeFileManagerError(err)))
+        )),
+        mergeMap((entries) => {
+          const previous = snapshot;
+          snapshot = new Map(entries.map(entry => [entry.name, entry]));
+          return previous ? this.diffListings(directory, previous, snapshot) : [];
+        })
+      );
+    });
+  }
+
+  /**
+   * Changes between listings of a directory, by entry name
+   * @param directory 
+   * @param previous 
+   * @param current 
+   */
+  private diffListings(
+    directory: DeDirectory,
+    previous: Map<string, FileStorageDirectory | FileStorageFile>,
+    current: Map<string, FileStorageDirectory | FileStorageFile>
+  ): DirectoryChange[] {
+    const toEntry = (item: FileStorageDirectory | FileStorageFile): FileOrDir => item.isFile
+      ? new DeFile(item as FileStorageFile, this, directory)
+      : new DeDirectory(item as FileStorageDirectory, this, directory);
+    // of files, directories have no state besides their name
+    const state = (item: FileStorageDirectory | FileStorageFile) => item.isFile
+      ? [(item as FileStorageFile).size, (item as FileStorageFile).status, (item as FileStorageFile).uploadingProgress].join(':')
+      : '';
+
+    let changes: DirectoryChange[] = [];
+    previous.forEach((item, name) => {
+      const next = current.get(name);
+      if (!next || next.isFile !== item.isFile) {
+        const entry = toEntry(item);
+        // removed entries are not resolved from index or cache
+        this.unindexEntry(entry);
+        entry.kind === KIND.DIRECTORY && this.invalidateCache(entry as DeDirectory, true);
+        changes.push({ type: DIRECTORY_CHANGE.REMOVED, directory, entry });
+      }
+    });
+    current.forEach((item, name) => {
+      const last = previous.get(name);
+      if (!last || last.isFile !== item.isFile) {
+        changes.push({ type: DIRECTORY_CHANGE.ADDED, directory, entry: toEntry(item) });
+      } else if (state(last) !== state(item)) {
+        changes.push({ type: DIRECTORY_CHANGE.CHANGED, directory, entry: toEntry(item) });
+      }
+    });
+    changes.forEach(({ type, entry }) => type !== DIRECTORY_CHANGE.REMOVED && this.indexEntry(entry));
+    return changes;
+  }
+
   rootDirectory() {
     return this.rootDir;
   }
@@ -283,96 +1529,138 @@ export class DeFileManager {
   async accountIsAdmin() {
     if (!this.account)
       return false;
-    const ADMIN_ROLE = await this.contract.methods.DEFAULT_ADMIN_ROLE().call();
-    return await this.contract.methods.hasRole(ADMIN_ROLE, this.account).call();
+    return await this.backend.hasRole(ROLE.ADMIN, this.account);
   }
 
   async accountIsAllocator() {
     if (!this.account)
       return false;
-    const ALLOCATOR_ROLE = await this.contract.methods.ALLOCATOR_ROLE().call();
-    return await this.contract.methods.hasRole(ALLOCATOR_ROLE, this.account).call();
+    return await this.backend.hasRole(ROLE.ALLOCATOR, this.account);
   }
 
-  async reserveSpace(address: Address, amount: number) {
+  async reserveSpace(address: Address, amount: number, options: OperationOptions = {}) {
     if (!this.account)
-      throw Error(ERROR.NO_ACCOUNT);
-    const signer = this.account || "";
+      throw new NoAccountError();
     return this.queueOp(
       OPERATION.RESERVE_SPACE,
-      () => this.fs.reserveSpace(signer, sanitizeAddress(address), amount, this.accountPrivateKey),
+      (id) => this.transact(() => this.backend.reserveSpace(this.signer(id), sanitizeAddress(address), amount)),
+      () => ({ address, amount }),
+      (err) => ({ address, amount, error: err }),
+      { signal: options.signal, journal: { address: sanitizeAddress(address), amount } }
     );
   }
 
-  async grantRole(address: Address, role: string = ROLE.ALLOCATOR) {
+  async grantRole(address: Address, role: string = ROLE.ALLOCATOR, options: OperationOptions = {}) {
     if (!this.account)
-      throw Error(ERROR.NO_ACCOUNT);
-    const signer = this.account || "";
+      throw new NoAccountError();
 
     if (!(await this.accountIsAdmin())) {
-      throw Error(ERROR.NOT_AUTHORIZED);
+      throw new NotAuthorizedError();
     }
     if (!role) {
-      throw Error(ERROR.UNKNOWN);
+      throw new DeFileManagerError();
     }
 
     return this.queueOp(
       OPERATION.GRANT_ROLE,
-      () => this.fs.grantAllocatorRole(signer, sanitizeAddress(address), this.accountPrivateKey)
+      (id) => this.transact(() => this.backend.grantRole(this.signer(id), role, sanitizeAddress(address))),
+      () => ({ address, role }),
+      (err) => ({ address, role, error: err }),
+      { signal: options.signal, journal: { address: sanitizeAddress(address), role } }
     );
   }
 
   /**
    * Load directory listing by absolute path, supported by cache
+   * stale listings are served while loaded again in the background
    * @param path 
-   * @param noCache 
+   * @param noCache load from chain, cached for later reads
    */
   async loadDirectory(
     path: FileStorageDirectory['storagePath'],
     noCache: boolean = false
   ): Promise<Array<FileStorageFile | FileStorageDirectory>> {
+    await this.restoring;
+    const cached = noCache ? undefined : this.cache.get(path);
     let entries;
-    if (this.cache[path] && !noCache) {
-      entries = this.cache[path];
+    if (cached) {
+      entries = cached.entries;
+      // failure is left to the next read
+      cached.stale && this.fetchDirectory(path).catch(() => undefined);
     } else {
-      entries = await this.fs.listDirectory(`${path}`);
-      this.cache[path] = entries;
+      entries = await this.fetchDirectory(path, noCache);
     }
     return sortBy(entries, ((o: FileStorageDirectory | FileStorageFile) => o.isFile === true));
   }
 
+  /**
+   * Listing from chain into cache, shared by concurrent reads
+   * @param path 
+   * @param fresh not joining a listing already being loaded
+   */
+  private fetchDirectory(path: string, fresh: boolean = false) {
+    const loading = this.listings.get(path);
+    if (loading && !fresh) return loading;
+
+    const generation = this.cache.generation;
+    const listing = this.backend.listDirectory(path)
+      .then((entries) => {
+        this.cache.set(path, entries, generation);
+        return entries;
+      }, (err) => { throw toDeFileManagerError(err) })
+      .finally(() => {
+        this.listings.get(path) === listing && this.listings.delete(path);
+      });
+    this.listings.set(path, listing);
+    return listing;
+  }
+
   /**
    * Create a directory within destination directory
    * @param destDirectory 
    * @param name 
+   * @param options 
    */
   async createDirectory(
     destDirectory: DeDirectory,
-    name: string
-  ): Promise<OperationEvent> {
+    name: string,
+    options: OperationOptions = {}
+  ): Promise<OperationSuccess<typeof OPERATION.CREATE_DIRECTORY>> {
 
     if (!this.account)
-      throw Error(ERROR.NO_ACCOUNT);
-    const signer = this.account || "";
+      throw new NoAccountError();
+    const signer = this.signer();
 
-    const path = this.isRootDir(destDirectory) ? name : `${destDirectory.path}/${name}`;
+    const path = this.childPath(destDirectory, name);
 
     return this.queueOp(
       OPERATION.CREATE_DIRECTORY,
-      () => this.fs.createDirectory(signer, path, this.accountPrivateKey),
-      (storagePath) => ({
+      async (id) => {
+        this.preflight && await this.validate({
+          type: OPERATION.CREATE_DIRECTORY,
+          destDirectory,
+          name
+        });
+        return this.transact(() => this.backend.createDirectory(this.signer(id), path));
+      },
+      () => ({
         destDirectory,
-        directory: new DeDirectory({ storagePath, name, isFile: false }, this, destDirectory)
+        directory: new DeDirectory({
+          storagePath: DePath.from(path).toStoragePath(signer.address),
+          name,
+          isFile: false
+        }, this, destDirectory)
       }),
       (err) => ({
         error: err,
         destDirectory,
         directory: new DeDirectory({
-          storagePath: this.absolutePath(destDirectory) + "/" + name,
+          storagePath: DePath.from(path).toStoragePath(this.rootDir.name),
           name,
           isFile: false
         }, this, destDirectory)
       }),
+      { paths: [path], signal: options.signal, journal: { path } }
     );
   }
 
@@ -380,19 +1668,20 @@ export class DeFileManager {
    * Delete a file in destination directory
    * @param destDirectory 
    * @param file 
+   * @param options 
    */
   async deleteFile(
     destDirectory: DeDirectory,
-    file: DeFile
-  ): Promise<OperationEvent> {
+    file: DeFile,
+    options: OperationOptions = {}
+  ): Promise<OperationSuccess<typeof OPERATION.DELETE_FILE>> {
 
     if (!this.account)
-      throw Error(ERROR.NO_ACCOUNT);
-    const signer = this.account || "";
+      throw new NoAccountError();
 
     return this.queueOp(
       OPERATION.DELETE_FILE,
-      () => this.fs.deleteFile(signer, file.path, this.accountPrivateKey),
+      (id) => this.transact(() => this.backend.deleteFile(this.signer(id), file.path)),
       (res) => ({
         destDirectory,
         file
@@ -400,28 +1689,26 @@ export class DeFileManager {
       (err) => ({
         destDirectory,
         error: err
-      })
+      }),
+      { paths: [file.path], signal: options.signal, journal: { path: file.path } }
     )
   }
 
   /**
    * Delete a directory 
    * @param directory 
-   * refactor this if queueing is extended with non-sequential options
-   * or when network supports nested deletion
+   * @param options cancels deletion of remaining contents and the directory
+   * refactor this when network supports nested deletion
    */
-  async deleteDirectory(directory: DeDirectory): Promise<OperationEvent> {
+  async deleteDirectory(directory: DeDirectory, options: OperationOptions = {}): Promise<OperationSuccess<typeof OPERATION.DELETE_DIRECTORY>> {
     if (directory.path === this.rootDir.path)
-      throw Error(ERROR.UNKNOWN);
+      throw new InvalidPathError();
     if (!this.account)
-      throw Error(ERROR.NO_ACCOUNT);
-    const signer = this.account || "";
-
-    let task: Promise<OperationEvent>;
+      throw new NoAccountError();
 
     const op = (directory: DeDirectory) => this.queueOp(
       OPERATION.DELETE_DIRECTORY,
-      () => this.fs.deleteDirectory(signer, directory.path, this.accountPrivateKey),
+      (id) => this.transact(() => this.backend.deleteDirectory(this.signer(id), directory.path)),
       (res) => ({
         destDirectory: directory.parent,
         directory
@@ -429,69 +1716,77 @@ export class DeFileManager {
       (err) => ({
         destDirectory: directory.parent,
         error: err
-      })
+      }),
+      { paths: [directory.path], signal: options.signal, journal: { path: directory.path } }
     )
 
-    return new Promise(async (resolve, reject) => {
-      let promises: Promise<OperationEvent>[] = [];
+    let promises: Promise<unknown>[] = [];
+    try {
       await this.iterateDirectory(directory, (entry) => {
-        task = (
+        promises.push(
           (entry as FileOrDir).kind === "directory" ?
             op(entry as DeDirectory)
             :
-            this.deleteFile((entry as FileOrDir).parent as DeDirectory, entry as DeFile)
+            this.deleteFile((entry as FileOrDir).parent as DeDirectory, entry as DeFile, options)
         );
-        promises.push(task);
       });
-      Promise.all(promises)
-        .then(res => {
-          resolve(op(directory))
-        });
-    });
+    } catch (err) {
+      // contents queued before the failure settle on bus
+      promises.forEach(promise => promise.catch(() => undefined));
+      throw toDeFileManagerError(err);
+    }
+    await Promise.all(promises);
+    return op(directory);
   }
 
   /**
    * Upload a file in destination directory using File object
+   * chunks are sent as separate transactions, emitting progress events on bus
    * @param destDirectory 
    * @param file 
+   * @param options 
    */
   async uploadFile(
     destDirectory: DeDirectory,
     file: FileLike,
-  ): Promise<OperationEvent> {
+    options: UploadOptions = {}
+  ): Promise<OperationSuccess<typeof OPERATION.UPLOAD_FILE>> {
 
     if (!this.account)
-      throw Error(ERROR.NO_ACCOUNT);
-    const signer = this.account || "";
-
-    let buffer: Buffer;
+      throw new NoAccountError();
 
-    if (file.buffer) {
-      buffer = file.buffer();
-    }
-    else if (file.arrayBuffer) {
-      const arrayBuffer = await file.arrayBuffer();
-      buffer = Buffer.from(arrayBuffer);
-    }
-    else {
-      throw Error(ERROR.UNKNOWN);
-    }
+    const buffer = await this.fileBuffer(file);
 
-    const uploadPath = (destDirectory.path === this.rootDir.path)
-      ? file.name
-      : `${destDirectory.path}/${file.name}`;
+    const uploadPath = this.childPath(destDirectory, file.name);
 
     return this.queueOp(
       OPERATION.UPLOAD_FILE,
-      () => this.fs.uploadFile(signer, uploadPath, buffer, this.accountPrivateKey),
+      async (id, signal, attempt, resumed) => {
+        // takes over the file left by an interrupted run, continued from its session if resumable
+        const resumable = options.resumable || resumed;
+        this.preflight && await this.validate({
+          type: OPERATION.UPLOAD_FILE,
+          destDirectory,
+          name: file.name,
+          size: buffer.length,
+          resumable
+        });
+        return this.uploadChunks(this.signer(id), uploadPath, buffer, (progress) => {
+          this.emitProgress(id, OPERATION.UPLOAD_FILE, {
+            destDirectory,
+            file,
+            progress
+          });
+        }, resumable, signal);
+      },
       (storagePath) => ({
         destDirectory,
         file: new DeFile({
           storagePath,
           name: file.name,
           isFile: true,
-          size: file.size || 0,
-          status: 2,
+          size: file.size || buffer.length,
+          status: FILE_STATUS.UPLOADED,
           uploadingProgress: 100
         }, this)
       }),
@@ -499,16 +1794,227 @@ export class DeFileManager {
         destDirectory,
         file,
         error: err,
-      })
+      }),
+      { paths: [uploadPath], signal: options.signal, journal: { path: uploadPath, size: buffer.length } }
     );
   }
 
   /**
-   * Download a file
+   * Resume an incomplete upload session with the same file content
+   * @param session 
+   * @param file 
+   * @param options 
+   */
+  async resumeUpload(
+    session: UploadSession,
+    file: FileLike,
+    options: OperationOptions = {}
+  ): Promise<OperationSuccess<typeof OPERATION.UPLOAD_FILE>> {
+    const sessionPath = DePath.from(session.path);
+    const destDirectory = await this.resolvePath(sessionPath.parent.toString());
+    if (!destDirectory || destDirectory.kind !== KIND.DIRECTORY) {
+      throw new PathNotFoundError();
+    }
+    // session path is authoritative over local file name
+    const content = this.renamedFile(file, sessionPath.basename || file.name);
+    return this.uploadFile(destDirectory as DeDirectory, content, { ...options, resumable: true });
+  }
+
+  /**
+   * File object with the same content under another name
+   * @param file 
+   * @param name 
+   */
+  private renamedFile(file: FileLike, name: string): FileLike {
+    return {
+      name,
+      size: file.size,
+      arrayBuffer: file.arrayBuffer && (() => (file as Required<FileLike>).arrayBuffer()),
+      buffer: file.buffer && (() => (file as Required<FileLike>).buffer()),
+    };
+  }
+
+  /**
+   * Read bytes of a file at position using backend readChunk
+   * length is limited by max chunk size
+   * @param file 
+   * @param position 
+   * @param length 
+   */
+  async readChunk(file: DeFile, position: number, length: number): Promise<Buffer> {
+    if (length <= 0) return Buffer.alloc(0);
+    return this.backend.readChunk(this.absolutePath(file), position, length)
+      .catch((err) => { throw toDeFileManagerError(err) });
+  }
+
+  /**
+   * Read a byte range of a file in chunks
    * @param file 
+   * @param start inclusive offset
+   * @param end exclusive offset
    */
-  async downloadFile(file: DeFile) {
-    return this.fs.downloadToFile(this.rootDir.name + "/" + file.path);
+  async readRange(file: DeFile, start: number = 0, end: number = file.size): Promise<Buffer> {
+    start = Math.max(0, Math.min(start, file.size));
+    end = Math.max(start, Math.min(end, file.size));
+
+    const chunkSize = await this.getMaxChunkSize();
+    let chunks: Buffer[] = [];
+    for (let position = start; position < end; position += chunkSize) {
+      chunks.push(await this.readChunk(file, position, Math.min(chunkSize, end - position)));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Move a file or directory into destination directory, optionally renamed
+   * content is copied chunk by chunk and verified before the source is deleted
+   * @param entry 
+   * @param destDirectory 
+   * @param newName 
+   * @param options 
+   */
+  async move(
+    entry: FileOrDir,
+    destDirectory: DeDirectory,
+    newName: string = entry.name,
+    options: OperationOptions = {}
+  ): Promise<OperationSuccess<typeof OPERATION.MOVE>> {
+    return this.transfer(OPERATION.MOVE, entry, destDirectory, newName, true, options);
+  }
+
+  /**
+   * Rename a file or directory within its directory
+   * @param entry 
+   * @param newName 
+   * @param options 
+   */
+  async rename(entry: FileOrDir, newName: string, options: OperationOptions = {}): Promise<OperationSuccess<typeof OPERATION.RENAME>> {
+    const parentPath = DePath.from(entry.path).parent.toString();
+    const parent = entry.parent || (await this.resolvePath(parentPath)) as DeDirectory;
+    if (!parent)
+      throw new PathNotFoundError();
+    return this.transfer(OPERATION.RENAME, entry, parent, newName, true, options);
+  }
+
+  /**
+   * Copy a file or directory tree into destination directory, optionally renamed
+   * the emitted event lists the result of every copied entry
+   * @param entry 
+   * @param destDirectory 
+   * @param newName 
+   * @param options 
+   */
+  async copy(
+    entry: FileOrDir,
+    destDirectory: DeDirectory,
+    newName: string = entry.name,
+    options: OperationOptions = {}
+  ): Promise<OperationSuccess<typeof OPERATION.COPY>> {
+    return this.transfer(OPERATION.COPY, entry, destDirectory, newName, false, options);
+  }
+
+  private async transfer<T extends TransferType>(
+    key: T,
+    entry: FileOrDir,
+    destDirectory: DeDirectory,
+    name: string,
+    removeSource: boolean,
+    options: OperationOptions = {}
+  ): Promise<OperationSuccess<T>> {
+    if (!this.account)
+      throw new NoAccountError();
+    if (entry.kind === KIND.DIRECTORY && this.isRootDir(entry as DeDirectory))
+      throw new InvalidPathError();
+
+    const path = this.childPath(destDirectory, name);
+    // into itself or its own subtree
+    if (
+      path === entry.path ||
+      (entry.kind === KIND.DIRECTORY && DePath.from(path).isWithin(entry.path))
+    ) {
+      throw new InvalidPathError(ERROR.INVALID_DESTINATION);
+    }
+
+    const parentPath = DePath.from(entry.path).parent.toString();
+    const sourceDirectory = removeSource
+      ? entry.parent || (await this.resolvePath(parentPath)) as DeDirectory
+      : undefined;
+
+    // shared by task and results, of the last run
+    const entries: TransferResult[] = [];
+    let copied = false;
+
+    return this.queueOp(
+      key,
+      async (id, signal, attempt, resumed) => {
+        const signer = this.signer(id);
+        if (!copied) {
+          entries.length = 0;
+          const progress: OperationProgress = {
+            loaded: 0,
+            total: await this.treeSize(entry)
+          };
+          // content is written in full before the source is removed
+          // the destination of a resumed run holds copies of the interrupted one
+          this.preflight && !resumed && await this.validate({
+            type: key,
+            destDirectory,
+            name,
+            size: progress.total
+          });
+          await this.copyTree(signer, entry, path, entries, (bytes) => {
+            progress.loaded += bytes;
+            this.emitProgress(id, key, {
+              destDirectory,
+              entry,
+              progress: { ...progress }
+            });
+          }, signal, resumed);
+          const failed = entries.find(result => result.status === STATUS.ERROR);
+          if (failed) {
+            throw failed.error;
+          }
+          // once copied, the source is removed regardless of cancellation
+          await this.updateJournal(id, { copied: true });
+          copied = true;
+        }
+        removeSource && await this.removeTree(signer, entry);
+        return DePath.from(path).toStoragePath(this.account || "");
+      },
+      (storagePath) => ({
+        destDirectory,
+        sourceDirectory,
+        source: entry,
+        entry: (entry.kind === KIND.FILE)
+          ? new DeFile({
+            storagePath,
+            name,
+            isFile: true,
+            size: (entry as DeFile).size,
+            status: FILE_STATUS.UPLOADED,
+            uploadingProgress: 100
+          }, this, destDirectory)
+          : new DeDirectory({ storagePath, name, isFile: false }, this, destDirectory),
+        entries
+      }),
+      (err) => ({
+        // partially copied entries are in destination
+        destDirectory,
+        source: entry,
+        error: err,
+        entries
+      }),
+      { paths: [entry.path, path], signal: options.signal, journal: { path: entry.path, destination: path } }
+    );
+  }
+
+  /**
+   * Download contents of a file at once, saving is left to the caller
+   * ex: useDeFileManager saves downloads in browsers, fs.writeFile in NodeJS
+   * @param file 
+   */
+  async downloadFile(file: DeFile): Promise<Buffer> {
+    return this.backend.download(this.absolutePath(file));
   }
 
   /**
@@ -541,11 +2047,10 @@ export class DeFileManager {
 
       if (flag == false) return;
       let all = [];
-      //@ts-ignore
       for await (const entry of directory.entries()) {
         if ((entry.kind === KIND.DIRECTORY) && (level < depth) && (flag === true)) {
           level++;
-          await iterator(entry, onEntry);
+          await iterator(entry as DeDirectory, onEntry);
         }
         (asArray) ? all.push(entry) : onEntry(entry, stop, level);
       }
@@ -557,6 +2062,10 @@ export class DeFileManager {
     return iterator(directory, onEntry, asArray);
   }
 
+  /**
+   * Load listings of the directory tree into cache, and the directory index if given
+   * @param startDirectory 
+   */
   async preloadDirectories(startDirectory: DeDirectory) {
     await this.iterateDirectory(
       startDirectory,
@@ -568,73 +2077,151 @@ export class DeFileManager {
 
   /**
    * Resolve DeDirectory or DeFile from relative path
-   * @param path relative path
+   * @param path relative path, normalized, throws InvalidPathError when invalid
    */
-  async resolvePath(path: FileOrDir['path']): Promise<FileOrDir | undefined> {
-    if (path === "") {
+  async resolvePath(path: RelativePath | DePath): Promise<FileOrDir | undefined> {
+    const target = DePath.parse(path);
+    if (target.isRoot) {
       return this.rootDir;
     }
-    let found: (FileOrDir | undefined) = this.index[path];
+    let found: (FileOrDir | undefined) = this.index.get(target.toString());
 
     if (found) return found;
 
-    await this.iterateDirectory(this.rootDir, (entry, stop) => {
-      if ((entry as FileOrDir).path === path) {
-        found = entry as FileOrDir;
-        stop();
+    // list directories along the path not indexed yet, one per segment
+    const { segments } = target;
+    let directory = this.rootDir;
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const entryPath = segments.slice(0, depth).join('/');
+      if (!this.index.has(entryPath)) {
+        for await (const _ of directory.entries());
       }
-    });
+      found = this.index.get(entryPath);
+      if (!found || (depth < segments.length && found.kind !== KIND.DIRECTORY)) return;
+      directory = found as DeDirectory;
+    }
 
     return found;
   }
 
   /**
-   * Fuzzy search across the directory tree with a starting node
-   * @param inDirectory 
-   * @param query 
+   * Files and directories matching glob patterns relative to cwd, yielded as directories are listed
+   * only directories that may contain matches are listed, ex: for "assets/**" the home and the assets subtree
+   * ex: for await (const image of fm.glob('assets/{icons,images}/*.png', { kind: KIND.FILE })) ...
+   * @param patterns matched if any matches and no negated one does, see Glob
+   * @param options 
    */
-  async search(inDirectory: DeDirectory, query: string) {
+  async * glob(patterns: string | string[], options: GlobOptions = {}): AsyncGenerator<FileOrDir> {
+    const cwd = options.cwd || this.rootDir;
+    yield* this.globDirectory(cwd, cwd, new GlobSet(patterns, options.ignore), options.kind);
+  }
 
-    let results: Array<FileOrDir> = [];
+  private async * globDirectory(
+    directory: DeDirectory,
+    cwd: DeDirectory,
+    globs: GlobSet,
+    kind?: string
+  ): AsyncGenerator<FileOrDir> {
+    for await (const entry of directory.entries()) {
+      const path = DePath.from(entry.path).relativeTo(cwd.path);
+      if (globs.ignores(path)) continue;
+      if ((!kind || entry.kind === kind) && globs.match(path)) {
+        yield entry;
+      }
+      if (entry.kind === KIND.DIRECTORY && globs.descends(path)) {
+        yield* this.globDirectory(entry as DeDirectory, cwd, globs, kind);
+      }
+    }
+  }
 
-    if (!query) return results;
+  /**
+   * Search a directory tree by name and filters, see SearchQuery
+   * results are ranked across the whole tree, by score then shallower paths first
+   * ex: await fm.search({ name: 'logo', type: 'image/*', path: 'assets/', limit: 10 })
+   * the former search(inDirectory, name) fuzzy searches by name, returning entries without scores
+   * @param query
+   */
+  search(query?: SearchQuery): Promise<SearchResult[]>;
+  /** @deprecated use search({ directory, name }) */
+  search(inDirectory: DeDirectory, query: string): Promise<FileOrDir[]>;
+  async search(
+    queryOrDirectory: SearchQuery | DeDirectory = {},
+    name?: string
+  ): Promise<SearchResult[] | FileOrDir[]> {
+    if (queryOrDirectory instanceof DeDirectory) {
+      if (!name || !name.trim()) return [];
+      const results = await this.search({ directory: queryOrDirectory, name: name.trim() });
+      return results.map(result => result.entry);
+    }
+    const query = queryOrDirectory;
+    let results: SearchResult[] = [];
+    for await (const result of this.searchStream({ ...query, limit: undefined })) {
+      results.push(result);
+    }
+    const ranked = sortBy(results, [
+      (result: SearchResult) => result.score,
+      (result: SearchResult) => DePath.from(result.entry.path).depth,
+      (result: SearchResult) => result.entry.path
+    ]);
+    return query.limit === undefined ? ranked : ranked.slice(0, query.limit);
+  }
 
-    const handleList = (list: any) => {
-      const fuse = new Fuse(list, { keys: ['name'] });
-      const result = fuse.search(query.trim()).map(r => r.item) as FileOrDir[];
-      results = [...results, ...result];
+  /**
+   * Search results as they are found, listing by listing, directories before their contents
+   * stops after limit results, or once returned from
+   * @param query
+   */
+  async * searchStream(query: SearchQuery = {}): AsyncGenerator<SearchResult> {
+    const directory = query.directory || this.rootDir;
+    const matcher = new SearchMatcher(query, directory.path);
+    let remaining = query.limit === undefined ? Infinity : query.limit;
+    if (remaining <= 0) return;
+    for await (const result of this.searchDirectory(directory, matcher)) {
+      yield result;
+      if (--remaining <= 0) return;
     }
+  }
 
-    await this.iterateDirectory(inDirectory, handleList, true);
-    console.log("filemanager::search:results", results);
-    return results;
+  private async * searchDirectory(directory: DeDirectory, matcher: SearchMatcher): AsyncGenerator<SearchResult> {
+    let entries: FileOrDir[] = [];
+    for await (const entry of directory.entries()) {
+      entries.push(entry);
+    }
+    for (const result of matcher.match(entries)) {
+      yield result;
+    }
+    for (const entry of entries) {
+      if (entry.kind === KIND.DIRECTORY && matcher.descends(entry)) {
+        yield* this.searchDirectory(entry as DeDirectory, matcher);
+      }
+    }
   }
 
   /**
    * Get space occupied by the current address
    */
   async occupiedSpace() {
-    return (await this.fs.getOccupiedSpace(this.address));
+    return (await this.backend.getOccupiedSpace(this.address));
   }
 
   /**
    * Get space reserved for the current address
    */
   async reservedSpace() {
-    return (await this.fs.getReservedSpace(this.address));
+    return (await this.backend.getReservedSpace(this.address));
   }
 
   /**
    * Get space reserved on the entire file system
    */
   async totalReservedSpace() {
-    return (await this.fs.getTotalReservedSpace());
+    return (await this.backend.getTotalReservedSpace());
   }
 
   /**
    * Get total space available on the file system
    */
   async totalSpace() {
-    return (await this.fs.getTotalSpace());
+    return (await this.backend.getTotalSpace());
   }
 }
\ No newline at end of file
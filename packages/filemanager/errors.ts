@@ -0,0 +1,255 @@
+import type { OperationFailure, OperationType } from './types';
+
+import { Buffer } from 'buffer';
+
+import { ERROR, ERROR_CODE, REVERT, STATUS } from './constants';
+
+/**
+ * Typed errors of the file manager with stable codes
+ * failures of the storage backend are normalized with toDeFileManagerError
+ */
+
+export type DeFileManagerErrorOptions = {
+  cause?: unknown; // original error
+  reason?: string; // decoded revert reason
+}
+
+export class DeFileManagerError extends Error {
+  readonly code: string;
+  readonly cause?: unknown;
+  readonly reason?: string;
+
+  constructor(
+    code: string = ERROR_CODE.UNKNOWN,
+    message: string = ERROR.UNKNOWN,
+    { cause, reason }: DeFileManagerErrorOptions = {}
+  ) {
+    super(message);
+    // keep instanceof working for down-level targets
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+    this.reason = reason;
+  }
+}
+
+export class NoAccountError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.NO_ACCOUNT, ERROR.NO_ACCOUNT, options);
+  }
+}
+
+export class NotAuthorizedError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.NOT_AUTHORIZED, ERROR.NOT_AUTHORIZED, options);
+  }
+}
+
+export class InsufficientSpaceError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.INSUFFICIENT_SPACE, ERROR.INSUFFICIENT_SPACE, options);
+  }
+}
+
+export class PathNotFoundError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.PATH_NOT_FOUND, ERROR.PATH_NOT_FOUND, options);
+  }
+}
+
+export class AlreadyExistsError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.ALREADY_EXISTS, ERROR.ALREADY_EXISTS, options);
+  }
+}
+
+export class FileTooLargeError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.FILE_TOO_LARGE, ERROR.FILE_TOO_LARGE, options);
+  }
+}
+
+export class DirectoryFullError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.DIRECTORY_FULL, ERROR.DIRECTORY_FULL, options);
+  }
+}
+
+export class OfflineError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.OFFLINE, ERROR.NO_NET, options);
+  }
+}
+
+export class TimeoutError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.TIMEOUT, ERROR.TIMEOUT, options);
+  }
+}
+
+export class NonceError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.NONCE, ERROR.NONCE, options);
+  }
+}
+
+export class BusyError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.BUSY, ERROR.BUSY, options);
+  }
+}
+
+export class ContractRevertError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(
+      ERROR_CODE.CONTRACT_REVERT,
+      options?.reason ? `${ERROR.CONTRACT_REVERT}: ${options.reason}` : ERROR.CONTRACT_REVERT,
+      options
+    );
+  }
+}
+
+export class InvalidPathError extends DeFileManagerError {
+  constructor(message: string = ERROR.INVALID_PATH, options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.INVALID_PATH, message, options);
+  }
+}
+
+export class InvalidQueryError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.INVALID_QUERY, ERROR.INVALID_QUERY, options);
+  }
+}
+
+export class VerificationError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.VERIFICATION_FAILED, ERROR.VERIFICATION_FAILED, options);
+  }
+}
+
+export class CancelledError extends DeFileManagerError {
+  constructor(options?: DeFileManagerErrorOptions) {
+    super(ERROR_CODE.CANCELLED, ERROR.CANCELLED, options);
+  }
+}
+
+/**
+ * Stop an operation once its signal is aborted
+ * @param signal
+ */
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal && signal.aborted) {
+    throw new CancelledError();
+  }
+}
+
+// revert reasons with a more specific error than ContractRevertError
+const REVERT_ERRORS: Array<[string, new (options?: DeFileManagerErrorOptions) => DeFileManagerError]> = [
+  [REVERT.NOT_ALLOWED, NotAuthorizedError],
+  [REVERT.EXISTS, AlreadyExistsError],
+  [REVERT.NOT_FOUND, PathNotFoundError],
+  [REVERT.FILE_SIZE, FileTooLargeError],
+  [REVERT.NO_SPACE, InsufficientSpaceError],
+  [REVERT.CONTENT_COUNT, DirectoryFullError],
+];
+
+const OFFLINE_PATTERN = /CONNECTION ERROR|connection not open|Invalid JSON RPC response|ECONNREFUSED|ENOTFOUND|ECONNRESET|socket hang up|Failed to fetch|Network Error/i;
+const TIMEOUT_PATTERN = /timeout|timed out|ETIMEDOUT|not mined within/i;
+const NONCE_PATTERN = /nonce too low|nonce too high|invalid nonce|replacement transaction underpriced/i;
+
+// failures expected to pass on another attempt, see isRetryable
+const RETRYABLE_CODES = [ERROR_CODE.OFFLINE, ERROR_CODE.TIMEOUT, ERROR_CODE.NONCE, ERROR_CODE.BUSY];
+
+/**
+ * Revert reason from ABI encoded Error(string) data
+ * @param data hex string
+ */
+function decodeRevertData(data: string): string | undefined {
+  const hex = data.replace(/^0x/i, '');
+  if (!hex.startsWith('08c379a0')) return;
+  // selector, offset, length, then utf-8 bytes
+  const length = parseInt(hex.slice(8 + 64, 8 + 128), 16);
+  const bytes = hex.slice(8 + 128, 8 + 128 + length * 2);
+  return Buffer.from(bytes, 'hex').toString('utf8');
+}
+
+/**
+ * Revert reason of a failed call or transaction, from error data or message
+ * @param err
+ */
+export function revertReason(err: any): string | undefined {
+  if (!err) return;
+  const data = err.data?.data || err.data || err.error?.data;
+  if (typeof data === 'string') {
+    const reason = decodeRevertData(data);
+    if (reason) return reason;
+  }
+  if (typeof err.reason === 'string') return err.reason;
+  const message: string = err.message || '';
+  const match = message.match(/execution reverted:?\s*([^\n"]*)/i);
+  if (match && match[1]) return match[1].trim();
+  // backends mimicking the contract throw with the reason itself
+  return Object.values(REVERT).find(reason => message.includes(reason));
+}
+
+/**
+ * Whether a rejection is the event of a failed or cancelled operation, carrying its typed error
+ * operations reject with their event, other methods throw errors
+ * @param err
+ * @param type see OPERATION, any operation without
+ */
+export function isOperationFailure<T extends OperationType>(err: unknown, type?: T): err is OperationFailure<T> {
+  if (typeof err !== 'object' || err === null) return false;
+  const { type: eventType, status, result } = err as Partial<OperationFailure<OperationType>>;
+  return (status === STATUS.ERROR || status === STATUS.CANCELLED)
+    && (!type || eventType === type)
+    && !!result && result.error instanceof DeFileManagerError;
+}
+
+/**
+ * Normalize any failure into a typed DeFileManagerError, including rejections of operations
+ * @param err
+ */
+export function toDeFileManagerError(err: any): DeFileManagerError {
+  if (err instanceof DeFileManagerError) return err;
+  if (isOperationFailure(err)) return err.result.error;
+
+  const reason = revertReason(err);
+  if (reason) {
+    const match = REVERT_ERRORS.find(([revert]) => reason.includes(revert));
+    const ErrorClass = match ? match[1] : ContractRevertError;
+    return new ErrorClass({ cause: err, reason });
+  }
+
+  const message: string = err?.message || '';
+  if (NONCE_PATTERN.test(message)) {
+    return new NonceError({ cause: err });
+  }
+  if (TIMEOUT_PATTERN.test(message)) {
+    return new TimeoutError({ cause: err });
+  }
+  if (OFFLINE_PATTERN.test(message)) {
+    return new OfflineError({ cause: err });
+  }
+
+  return new DeFileManagerError(ERROR_CODE.UNKNOWN, err?.message || ERROR.UNKNOWN, { cause: err });
+}
+
+/**
+ * Whether a failure is due to the chain being unreachable
+ * @param err
+ */
+export function isOffline(err: any): boolean {
+  return toDeFileManagerError(err).code === ERROR_CODE.OFFLINE;
+}
+
+/**
+ * Whether a failure is transient, ex: dropped connection or nonce out of sync
+ * reverts are decided by the contract and fail again, as do cancellations
+ * @param err
+ */
+export function isRetryable(err: any): boolean {
+  const error = toDeFileManagerError(err);
+  return !error.reason && RETRYABLE_CODES.includes(error.code);
+}
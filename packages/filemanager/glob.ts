@@ -0,0 +1,204 @@
+import type { RelativePath } from './types';
+
+import { InvalidPathError } from './errors';
+
+// matches any number of path segments, including none
+const GLOBSTAR = Symbol('globstar');
+
+type Segment = string | RegExp | typeof GLOBSTAR;
+
+/**
+ * Path pattern with wildcards, matched against paths relative to a working directory
+ * "*" matches within a name, "?" one character, "[a-z]" or "[!a-z]" one of a class, "{png,jpg}" either alternative
+ * and "**" as a whole segment any number of directories; a leading "!" negates the pattern, see GlobSet
+ * ex: "assets/**" matches everything within assets, "*.{png,jpg}" images in the directory itself
+ */
+export class Glob {
+
+  readonly pattern: string;
+  readonly negated: boolean;
+  private readonly alternatives: Segment[][]; // by expanded braces
+
+  constructor(pattern: string) {
+    this.pattern = pattern;
+    this.negated = pattern.startsWith('!');
+    const body = this.negated ? pattern.slice(1) : pattern;
+    this.alternatives = expandBraces(body).map(alternative => alternative
+      .split('/')
+      .filter(segment => segment && segment !== '.')
+      .map(compileSegment)
+    );
+  }
+
+  /**
+   * Whether a path matches, regardless of negation
+   * @param path relative to the working directory
+   */
+  match(path: RelativePath): boolean {
+    const segments = path.split('/').filter(Boolean);
+    return this.alternatives.some(pattern => matchSegments(pattern, segments, false));
+  }
+
+  /**
+   * Whether paths within a directory may match, for traversal to skip directories that cannot contain matches
+   * @param directory relative to the working directory
+   */
+  matchWithin(directory: RelativePath): boolean {
+    const segments = directory.split('/').filter(Boolean);
+    return this.alternatives.some(pattern => matchSegments(pattern, segments, true));
+  }
+}
+
+/**
+ * Patterns combined: paths matching any pattern and none of the negated ones
+ * with negated patterns only, every path besides the ones they match
+ * ignored paths are neither matched nor descended into, ex: ignoring "node_modules" after a globstar skips such directories at any depth
+ */
+export class GlobSet {
+
+  private readonly patterns: Glob[];
+  private readonly negated: Glob[];
+  private readonly ignored: Glob[];
+
+  constructor(patterns: string | string[], ignore: string | string[] = []) {
+    const globs = ([] as string[]).concat(patterns).map(pattern => new Glob(pattern));
+    this.patterns = globs.filter(glob => !glob.negated);
+    this.negated = globs.filter(glob => glob.negated);
+    this.ignored = ([] as string[]).concat(ignore).map(pattern => new Glob(pattern));
+    if (!this.patterns.length) {
+      this.patterns.push(new Glob('**'));
+    }
+  }
+
+  match(path: RelativePath): boolean {
+    return !this.ignores(path)
+      && this.patterns.some(glob => glob.match(path))
+      && !this.negated.some(glob => glob.match(path));
+  }
+
+  ignores(path: RelativePath): boolean {
+    return this.ignored.some(glob => glob.match(path));
+  }
+
+  /**
+   * Whether a directory is to be listed for matches within
+   * @param directory relative to the working directory
+   */
+  descends(directory: RelativePath): boolean {
+    return !this.ignores(directory) && this.patterns.some(glob => glob.matchWithin(directory));
+  }
+}
+
+/**
+ * Segments of a pattern against segments of a path
+ * partial: whether paths within the path may match instead
+ */
+function matchSegments(pattern: Segment[], path: string[], partial: boolean, from: number = 0, at: number = 0): boolean {
+  for (let index = from; index < pattern.length; index++, at++) {
+    const segment = pattern[index];
+    if (segment === GLOBSTAR) {
+      // anything deeper may be absorbed by the globstar
+      if (partial) return true;
+      for (let next = at; next <= path.length; next++) {
+        if (matchSegments(pattern, path, partial, index + 1, next)) return true;
+      }
+      return false;
+    }
+    if (at === path.length) return partial;
+    const name = path[at];
+    if (typeof segment === 'string' ? segment !== name : !segment.test(name)) return false;
+  }
+  return !partial && at === path.length;
+}
+
+/**
+ * Name as is when without wildcards, otherwise a regular expression of it
+ * @param segment of a pattern, between slashes
+ */
+function compileSegment(segment: string): Segment {
+  if (segment === '**') return GLOBSTAR;
+  if (segment === '..')
+    throw new InvalidPathError();
+  let source = '';
+  let literal = '';
+  let magic = false;
+  for (let index = 0; index < segment.length; index++) {
+    const char = segment[index];
+    if (char === '\\' && index + 1 < segment.length) {
+      literal += segment[++index];
+      source += escapeRegExp(segment[index]);
+    } else if (char === '*') {
+      source += '.*';
+      magic = true;
+    } else if (char === '?') {
+      source += '.';
+      magic = true;
+    } else if (char === '[' && segment.indexOf(']', index + 2) > 0) {
+      const end = segment.indexOf(']', index + 2);
+      let members = segment.slice(index + 1, end);
+      const negated = members[0] === '!' || members[0] === '^';
+      negated && (members = members.slice(1));
+      source += '[' + (negated ? '^' : '') + members.replace(/[\\\]^]/g, '\\$&') + ']';
+      index = end;
+      magic = true;
+    } else {
+      literal += char;
+      source += escapeRegExp(char);
+    }
+  }
+  return magic ? new RegExp('^' + source + '$') : literal;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Patterns with each "{a,b}" replaced by its alternatives, nested ones included
+ * @param pattern
+ */
+function expandBraces(pattern: string): string[] {
+  let depth = 0;
+  let start = -1;
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '{') {
+      depth++ === 0 && (start = index);
+    } else if (char === '}' && depth > 0 && --depth === 0) {
+      const options = splitAlternatives(pattern.slice(start + 1, index));
+      // without alternatives, braces are taken as is
+      if (options.length < 2) continue;
+      const before = pattern.slice(0, start);
+      const after = pattern.slice(index + 1);
+      return options.reduce((patterns: string[], option) => patterns.concat(expandBraces(before + option + after)), []);
+    }
+  }
+  return [pattern];
+}
+
+/**
+ * Alternatives within braces, split by commas not nested in braces
+ * @param body
+ */
+function splitAlternatives(body: string): string[] {
+  let options: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < body.length; index++) {
+    const char = body[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      options.push(body.slice(start, index));
+      start = index + 1;
+    }
+  }
+  options.push(body.slice(start));
+  return options;
+}
@@ -0,0 +1,94 @@
+/**
+ * FileStorage contract ABI fragments served by the mock node
+ * as described by ContractContext (types/abi/filestorage-1.0.1)
+ */
+
+// bytes32 blocks returned by readChunk, MAX_CHUNK_SIZE / 32
+export const MAX_BLOCK_COUNT = 2 ** 15;
+
+type AbiParam = {
+  name: string;
+  type: string;
+  components?: AbiParam[];
+}
+
+export type AbiFunction = {
+  name: string;
+  type: 'function';
+  stateMutability: 'view' | 'nonpayable';
+  inputs: AbiParam[];
+  outputs: AbiParam[];
+}
+
+export type AbiEvent = {
+  name: string;
+  type: 'event';
+  anonymous: false;
+  inputs: (AbiParam & { indexed: boolean })[];
+}
+
+const param = (type: string, name: string = ''): AbiParam => ({ name, type });
+
+const indexed = (type: string, name: string) => ({ name, type, indexed: true });
+
+const event = (name: string, inputs: AbiEvent['inputs']): AbiEvent => ({
+  name, type: 'event', anonymous: false, inputs
+});
+
+const view = (name: string, inputs: AbiParam[], outputs: AbiParam[]): AbiFunction => ({
+  name, type: 'function', stateMutability: 'view', inputs, outputs
+});
+
+const nonpayable = (name: string, inputs: AbiParam[]): AbiFunction => ({
+  name, type: 'function', stateMutability: 'nonpayable', inputs, outputs: []
+});
+
+export const FILESTORAGE_ABI: AbiFunction[] = [
+  view('ALLOCATOR_ROLE', [], [param('bytes32')]),
+  view('DEFAULT_ADMIN_ROLE', [], [param('bytes32')]),
+  view('EMPTY_INDEX', [], [param('uint256')]),
+  view('MAX_BLOCK_COUNT', [], [param('uint256')]),
+  view('MAX_FILESIZE', [], [param('uint256')]),
+  view('MEGABYTE', [], [param('uint256')]),
+  view('STORAGE_SPACE_SLOT', [], [param('uint256')]),
+  view('hasRole', [param('bytes32', 'role'), param('address', 'account')], [param('bool')]),
+  nonpayable('grantRole', [param('bytes32', 'role'), param('address', 'account')]),
+  nonpayable('reserveSpace', [param('address', 'userAddress'), param('uint256', 'reservedSpace')]),
+  nonpayable('createDirectory', [param('string', 'directoryPath')]),
+  nonpayable('deleteDirectory', [param('string', 'directoryPath')]),
+  nonpayable('startUpload', [param('string', 'filePath'), param('uint256', 'fileSize')]),
+  nonpayable('uploadChunk', [param('string', 'filePath'), param('uint256', 'position'), param('bytes', 'data')]),
+  nonpayable('finishUpload', [param('string', 'filePath')]),
+  nonpayable('deleteFile', [param('string', 'filePath')]),
+  view('readChunk', [
+    param('string', 'storagePath'), param('uint256', 'position'), param('uint256', 'length')
+  ], [param(`bytes32[${MAX_BLOCK_COUNT}]`, 'out')]),
+  view('listDirectory', [param('string', 'storagePath')], [{
+    name: 'contentList',
+    type: 'tuple[]',
+    components: [
+      param('string', 'name'),
+      param('bool', 'isFile'),
+      param('uint256', 'size'),
+      param('int256', 'status'),
+      param('bool[]', 'isChunkUploaded'),
+    ]
+  }]),
+  view('getFileStatus', [param('string', 'storagePath')], [param('int256')]),
+  view('getFileSize', [param('string', 'storagePath')], [param('uint256')]),
+  view('getTotalStorageSpace', [], [param('uint256')]),
+  view('getTotalReservedSpace', [], [param('uint256')]),
+  view('getReservedSpace', [param('address', 'owner')], [param('uint256')]),
+  view('getOccupiedSpace', [param('address', 'owner')], [param('uint256')]),
+  view('getMaxContentCount', [], [param('uint256')]),
+  view('getMaxChunkSize', [], [param('uint256')]),
+];
+
+// role events of AccessControl, the contract emits none for content
+export const FILESTORAGE_EVENTS: AbiEvent[] = [
+  event('RoleAdminChanged', [
+    indexed('bytes32', 'role'), indexed('bytes32', 'previousAdminRole'), indexed('bytes32', 'newAdminRole')
+  ]),
+  event('RoleGranted', [indexed('bytes32', 'role'), indexed('address', 'account'), indexed('address', 'sender')]),
+  event('RoleRevoked', [indexed('bytes32', 'role'), indexed('address', 'account'), indexed('address', 'sender')]),
+];
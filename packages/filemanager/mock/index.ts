@@ -0,0 +1,41 @@
+import { program } from 'commander';
+
+import { MockFileStorageNode } from './node';
+
+program
+  .description('Run a local FileStorage JSON-RPC node for integration testing')
+  .option('-p, --port <number>', 'port to listen on', '8545')
+  .option('-c, --chainId <number>', 'chain ID', '1')
+  .option('-a, --admin <address...>', 'addresses with admin role')
+  .option('-r, --reserve <address:bytes...>', 'reserved space by address, ex: 0xabc..:1048576')
+  .option('--maxChunkSize <bytes>', 'max chunk size')
+  .option('--maxFileSize <bytes>', 'max file size (MAX_FILESIZE)')
+  .option('--maxContentCount <number>', 'max entries per directory')
+  ;
+
+program.parse();
+
+const options = program.opts();
+
+const toNumber = (value?: string) => (value === undefined) ? undefined : Number(value);
+
+(async () => {
+  const reservations = Object.fromEntries(
+    (options.reserve || []).map((reservation: string) => {
+      const [address, amount] = reservation.split(':');
+      return [address, Number(amount)];
+    })
+  );
+
+  const node = new MockFileStorageNode({
+    chainId: Number(options.chainId),
+    admins: options.admin || [],
+    reservations,
+    maxChunkSize: toNumber(options.maxChunkSize),
+    maxFileSize: toNumber(options.maxFileSize),
+    maxContentCount: toNumber(options.maxContentCount),
+  });
+
+  const endpoint = await node.listen(Number(options.port));
+  console.info(`[/] FileStorage mock node listening on ${endpoint}`);
+})();
@@ -0,0 +1,577 @@
+import { createServer, Server, IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+import Web3 from 'web3';
+import { Buffer } from 'buffer';
+
+import type { FileStorageFile } from '@skalenetwork/filestorage.js';
+import type { Address, Signer } from '../types';
+import { MemoryBackend, MemoryBackendOptions } from '../backends/memory';
+import { ROLE } from '../constants';
+import { ContractRevertError, toDeFileManagerError } from '../errors';
+import { FILESTORAGE_ABI, FILESTORAGE_EVENTS, MAX_BLOCK_COUNT, AbiFunction, AbiEvent } from './abi';
+
+/**
+ * @module
+ * Local stand-in for a SKALE chain serving the FileStorage contract over JSON-RPC
+ * state and contract rules are held by MemoryBackend, for deterministic integration tests
+ * every accepted transaction is mined instantly in its own block
+ * reverts are thrown as ContractRevertError within, and served with their encoded reason
+ * role grants are logged as RoleGranted, as by AccessControl
+ */
+
+// predeployed FileStorage address used by filestorage.js
+export const FILESTORAGE_ADDRESS = '0x69362535ec535F0643cBf62D16aDeDCAf32Ee6F7';
+
+// sets up reservations once started, see MockFileStorageNode.start
+const GENESIS_ADDRESS = '0x' + '0'.repeat(39) + '1';
+
+export type MockNodeOptions = MemoryBackendOptions & {
+  chainId?: number;
+  reservations?: { [address: string]: number }; // reserved space in bytes by address
+}
+
+type JsonRpcRequest = {
+  jsonrpc: string;
+  id: number | string;
+  method: string;
+  params?: any[];
+}
+
+type JsonRpcResponse = {
+  jsonrpc: string;
+  id: number | string;
+  result?: any;
+  error?: { code: number, message: string, data?: string };
+}
+
+class RpcError extends Error {
+  code: number;
+  data?: string;
+
+  constructor(code: number, message: string, data?: string) {
+    super(message);
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Decode RLP items, enough for serialized transactions
+ * @param input
+ */
+function decodeRlp(input: Buffer): Buffer | any[] {
+  const decode = (offset: number): [Buffer | any[], number] => {
+    const prefix = input[offset];
+    if (prefix < 0x80) {
+      return [input.slice(offset, offset + 1), offset + 1];
+    }
+    const readLength = (size: number) => input.slice(offset + 1, offset + 1 + size)
+      .reduce((length, byte) => length * 256 + byte, 0);
+    if (prefix < 0xc0) {
+      const isLong = prefix > 0xb7;
+      const length = isLong ? readLength(prefix - 0xb7) : prefix - 0x80;
+      const start = offset + 1 + (isLong ? prefix - 0xb7 : 0);
+      return [input.slice(start, start + length), start + length];
+    }
+    const isLong = prefix > 0xf7;
+    const length = isLong ? readLength(prefix - 0xf7) : prefix - 0xc0;
+    const start = offset + 1 + (isLong ? prefix - 0xf7 : 0);
+    let items = [];
+    let position = start;
+    while (position < start + length) {
+      const [item, next] = decode(position);
+      items.push(item);
+      position = next;
+    }
+    return [items, position];
+  };
+  return decode(0)[0];
+}
+
+export class MockFileStorageNode {
+
+  readonly backend: MemoryBackend;
+  readonly chainId: number;
+
+  private web3: Web3;
+  private methods: Map<string, AbiFunction>; // by selector
+  private roleHashes: { [hash: string]: string };
+  private blockNumber: number;
+  private nonces: Map<string, number>;
+  private queued: Map<string, Map<number, string>>; // future transactions by sender, of data by nonce
+  private receipts: Map<string, any>;
+  private transactions: Map<string, any>; // by hash
+  private blockTransactions: Map<number, string>; // hash by block, one per block
+  private server?: Server;
+  private reservations: { [address: string]: number };
+  private started?: Promise<void>;
+
+  constructor(options: MockNodeOptions = {}) {
+    this.backend = new MemoryBackend({
+      ...options,
+      admins: [...(options.admins || []), GENESIS_ADDRESS]
+    });
+    this.chainId = options.chainId || 1;
+
+    this.web3 = new Web3();
+    this.methods = new Map(FILESTORAGE_ABI.map(fragment => [
+      this.web3.eth.abi.encodeFunctionSignature(fragment),
+      fragment
+    ]));
+    this.roleHashes = {
+      ['0x' + '0'.repeat(64)]: ROLE.ADMIN,
+      [Web3.utils.keccak256('ALLOCATOR_ROLE')]: ROLE.ALLOCATOR,
+    };
+
+    this.blockNumber = 0;
+    this.nonces = new Map();
+    this.queued = new Map();
+    this.receipts = new Map();
+    this.transactions = new Map();
+    this.blockTransactions = new Map();
+    this.reservations = options.reservations || {};
+  }
+
+  /**
+   * Reserve space of the reservations option, once
+   * awaited before serving requests, by listen and handle
+   */
+  start(): Promise<void> {
+    if (!this.started) {
+      const genesis: Signer = { address: GENESIS_ADDRESS };
+      this.started = (async () => {
+        await this.backend.grantRole(genesis, ROLE.ALLOCATOR, GENESIS_ADDRESS);
+        for (const [address, amount] of Object.entries(this.reservations)) {
+          await this.backend.reserveSpace(genesis, address, amount);
+        }
+      })();
+    }
+    return this.started;
+  }
+
+  /**
+   * Start serving JSON-RPC over HTTP on any path
+   * @param port
+   * @returns endpoint URL
+   */
+  async listen(port: number = 8545, host: string = '127.0.0.1'): Promise<string> {
+    await this.start();
+    this.server = createServer((req, res) => this.serve(req, res));
+    await new Promise<void>(resolve => (this.server as Server).listen(port, host, resolve));
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  async close(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) => (this.server as Server).close(err => err ? reject(err) : resolve()));
+    this.server = undefined;
+  }
+
+  private serve(req: IncomingMessage, res: ServerResponse) {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', async () => {
+      let response: JsonRpcResponse | JsonRpcResponse[];
+      try {
+        const payload = JSON.parse(body);
+        response = Array.isArray(payload)
+          ? await Promise.all(payload.map(request => this.handle(request)))
+          : await this.handle(payload);
+      } catch (err) {
+        response = { jsonrpc: '2.0', id: 0, error: { code: -32700, message: 'Parse error' } };
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  }
+
+  /**
+   * Handle a single JSON-RPC request
+   * @param request
+   */
+  async handle(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const { id, method, params = [] } = request;
+    await this.start();
+    try {
+      return { jsonrpc: '2.0', id, result: await this.dispatch(method, params) };
+    } catch (err) {
+      return { jsonrpc: '2.0', id, error: this.rpcError(err) };
+    }
+  }
+
+  /**
+   * JSON-RPC error of a failure, reverts with their reason ABI encoded as Error(string)
+   * @param err
+   */
+  private rpcError(err: unknown): JsonRpcResponse['error'] {
+    if (err instanceof RpcError) {
+      return { code: err.code, message: err.message, data: err.data };
+    }
+    // backend failures carry the revert reason of the contract
+    const { reason, message } = toDeFileManagerError(err);
+    if (reason) {
+      const data = '0x08c379a0' + this.web3.eth.abi.encodeParameter('string', reason).slice(2);
+      return { code: 3, message: `execution reverted: ${reason}`, data };
+    }
+    return { code: -32603, message };
+  }
+
+  private async dispatch(method: string, params: any[]): Promise<any> {
+    const toHex = Web3.utils.toHex;
+    switch (method) {
+      case 'eth_chainId':
+        return toHex(this.chainId);
+      case 'net_version':
+        return this.chainId.toString();
+      case 'web3_clientVersion':
+        return 'skale-js/filestorage-mock';
+      case 'eth_blockNumber':
+        return toHex(this.blockNumber);
+      case 'eth_getBlockByNumber':
+        return this.block(params[0] === 'latest' || params[0] === 'pending'
+          ? this.blockNumber
+          : Number(params[0]), !!params[1]);
+      case 'eth_gasPrice':
+        return toHex(1);
+      case 'eth_getBalance':
+        return toHex(Web3.utils.toWei('1000', 'ether'));
+      case 'eth_getCode':
+        return '0x01';
+      case 'eth_getTransactionCount':
+        return toHex(this.nonces.get(params[0].toLowerCase()) || 0);
+      case 'eth_estimateGas':
+        return toHex(this.gas(params[0].data || '0x'));
+      case 'eth_call':
+        return this.call(params[0].data, params[0].from);
+      case 'eth_sendTransaction':
+        return this.transact(params[0].from, params[0].data, params[0].nonce && Number(params[0].nonce));
+      case 'eth_sendRawTransaction':
+        {
+          const { from, data, nonce } = this.decodeTransaction(params[0]);
+          return this.transact(from, data, nonce);
+        }
+      case 'eth_getTransactionReceipt':
+        return this.receipts.get(params[0]) || null;
+      case 'eth_getTransactionByHash':
+        return this.transactions.get(params[0]) || null;
+      case 'eth_getLogs':
+        return this.logs(params[0] || {});
+      default:
+        throw new RpcError(-32601, `Method ${method} not found`);
+    }
+  }
+
+  /**
+   * Block with its transaction, as hash or in full
+   * @param number
+   * @param full
+   */
+  private block(number: number, full: boolean = false) {
+    const hash = this.blockTransactions.get(number);
+    return {
+      number: Web3.utils.toHex(number),
+      hash: Web3.utils.keccak256('block:' + number),
+      parentHash: Web3.utils.keccak256('block:' + (number - 1)),
+      timestamp: Web3.utils.toHex(number),
+      gasLimit: Web3.utils.toHex(2 ** 32),
+      gasUsed: '0x0',
+      miner: '0x' + '0'.repeat(40),
+      transactions: hash ? [full ? this.transactions.get(hash) : hash] : [],
+    };
+  }
+
+  /**
+   * Logs of receipts in a block range, filtered by address and first topic
+   * @param filter as by eth_getLogs
+   */
+  private logs(filter: { fromBlock?: string, toBlock?: string, address?: string, topics?: (string | string[] | null)[] }) {
+    const toBlock = (!filter.toBlock || filter.toBlock === 'latest') ? this.blockNumber : Number(filter.toBlock);
+    const fromBlock = (!filter.fromBlock || filter.fromBlock === 'latest') ? toBlock : Number(filter.fromBlock);
+    const topic = filter.topics && filter.topics[0];
+    let logs = [];
+    for (let number = fromBlock; number <= toBlock; number++) {
+      const receipt = this.receipts.get(this.blockTransactions.get(number) as string);
+      for (const log of (receipt ? receipt.logs : [])) {
+        if (filter.address && filter.address.toLowerCase() !== log.address) continue;
+        if (topic && !([] as string[]).concat(topic).includes(log.topics[0])) continue;
+        logs.push(log);
+      }
+    }
+    return logs;
+  }
+
+  /**
+   * Deterministic gas by calldata size, not enforced
+   * @param data
+   */
+  private gas(data: string) {
+    return 21000 + 16 * Math.max(0, (data.length - 2) / 2);
+  }
+
+  private decodeTransaction(rawTx: string): { from: Address, data: string, nonce: number } {
+    const raw = Buffer.from(rawTx.replace(/^0x/, ''), 'hex');
+    // typed transactions (EIP-2718) start with chainId, legacy with nonce
+    const isTyped = raw[0] < 0x7f;
+    const fields = decodeRlp(isTyped ? raw.slice(1) : raw) as Buffer[];
+    const nonceField = isTyped ? fields[1] : fields[0];
+    const dataField = isTyped ? fields[raw[0] === 2 ? 7 : 6] : fields[5];
+    return {
+      from: this.web3.eth.accounts.recoverTransaction(rawTx),
+      data: '0x' + dataField.toString('hex'),
+      nonce: nonceField.length ? parseInt(nonceField.toString('hex'), 16) : 0
+    };
+  }
+
+  private revert(reason: string): ContractRevertError {
+    return new ContractRevertError({ reason });
+  }
+
+  private decodeCall(data: string): [AbiFunction, any] {
+    const fragment = this.methods.get((data || '').slice(0, 10));
+    if (!fragment) {
+      throw this.revert('Unsupported method');
+    }
+    const args = this.web3.eth.abi.decodeParameters(fragment.inputs, '0x' + data.slice(10));
+    return [fragment, args];
+  }
+
+  private async call(data: string, from?: Address): Promise<string> {
+    const [fragment, args] = this.decodeCall(data);
+    if (fragment.stateMutability !== 'view') {
+      throw this.revert('Unsupported call');
+    }
+    const values = await this.view(fragment.name, args);
+    return this.web3.eth.abi.encodeParameters(fragment.outputs, values);
+  }
+
+  private async view(name: string, args: any): Promise<any[]> {
+    const backend = this.backend;
+    switch (name) {
+      case 'ALLOCATOR_ROLE':
+        return [Web3.utils.keccak256('ALLOCATOR_ROLE')];
+      case 'DEFAULT_ADMIN_ROLE':
+        return ['0x' + '0'.repeat(64)];
+      case 'EMPTY_INDEX':
+      case 'STORAGE_SPACE_SLOT':
+        return [0];
+      case 'MAX_BLOCK_COUNT':
+        return [MAX_BLOCK_COUNT];
+      case 'MAX_FILESIZE':
+        return [backend.maxFileSize];
+      case 'MEGABYTE':
+        return [2 ** 20];
+      case 'hasRole':
+        return [await backend.hasRole(this.roleHashes[args.role], args.account)];
+      case 'readChunk':
+        {
+          const chunk = await backend.readChunk(args.storagePath, Number(args.position), Number(args.length));
+          const padded = Buffer.concat([chunk, Buffer.alloc(MAX_BLOCK_COUNT * 32 - chunk.length)]);
+          let words = [];
+          for (let i = 0; i < MAX_BLOCK_COUNT; i++) {
+            words.push('0x' + padded.slice(i * 32, (i + 1) * 32).toString('hex'));
+          }
+          return [words];
+        }
+      case 'listDirectory':
+        {
+          // filestorage.js lists paths with a trailing slash
+          const entries = await backend.listDirectory((args.storagePath as string).replace(/\/+$/, ''));
+          let contentList = [];
+          for (const entry of entries) {
+            const file = entry as FileStorageFile;
+            contentList.push(entry.isFile
+              ? [
+                entry.name, true, file.size, file.status,
+                await backend.uploadedChunks(entry.storagePath)
+              ]
+              : [entry.name, false, 0, 0, []]);
+          }
+          return [contentList];
+        }
+      case 'getFileStatus':
+        return [await backend.getFileStatus(args.storagePath)];
+      case 'getFileSize':
+        return [await backend.getFileSize(args.storagePath)];
+      case 'getTotalStorageSpace':
+        return [await backend.getTotalSpace()];
+      case 'getTotalReservedSpace':
+        return [await backend.getTotalReservedSpace()];
+      case 'getReservedSpace':
+        return [await backend.getReservedSpace(args.owner)];
+      case 'getOccupiedSpace':
+        return [await backend.getOccupiedSpace(args.owner)];
+      case 'getMaxContentCount':
+        return [backend.maxContentCount];
+      case 'getMaxChunkSize':
+        return [backend.maxChunkSize];
+      default:
+        throw this.revert('Unsupported method');
+    }
+  }
+
+  private async write(signer: Signer, name: string, args: any): Promise<void> {
+    const backend = this.backend;
+    switch (name) {
+      case 'grantRole':
+        await backend.grantRole(signer, this.roleHashes[args.role], args.account);
+        return;
+      case 'reserveSpace':
+        await backend.reserveSpace(signer, args.userAddress, Number(args.reservedSpace));
+        return;
+      case 'createDirectory':
+        await backend.createDirectory(signer, args.directoryPath);
+        return;
+      case 'deleteDirectory':
+        await backend.deleteDirectory(signer, args.directoryPath);
+        return;
+      case 'startUpload':
+        await backend.startUpload(signer, args.filePath, Number(args.fileSize));
+        return;
+      case 'uploadChunk':
+        await backend.uploadChunk(
+          signer, args.filePath, Number(args.position),
+          Buffer.from((args.data as string).replace(/^0x/, ''), 'hex')
+        );
+        return;
+      case 'finishUpload':
+        await backend.finishUpload(signer, args.filePath);
+        return;
+      case 'deleteFile':
+        await backend.deleteFile(signer, args.filePath);
+        return;
+      default:
+        throw this.revert('Unsupported method');
+    }
+  }
+
+  private transactionHash(sender: string, nonce: number, data: string) {
+    return Web3.utils.keccak256(`${sender}:${nonce}:${data}`);
+  }
+
+  /**
+   * Apply a transaction and mine it in a new block
+   * nonces lower than expected are rejected, higher ones are held
+   * until the preceding nonces arrive, as in a transaction pool
+   * @returns transaction hash
+   */
+  private async transact(from: Address, data: string, nonce?: number): Promise<string> {
+    const sender = from.toLowerCase();
+    const expected = this.nonces.get(sender) || 0;
+    if (nonce !== undefined && nonce < expected) {
+      throw new RpcError(-32000, 'nonce too low');
+    }
+    if (nonce !== undefined && nonce > expected) {
+      const queue = this.queued.get(sender) || new Map();
+      queue.set(nonce, data);
+      this.queued.set(sender, queue);
+      return this.transactionHash(sender, nonce, data);
+    }
+
+    const transactionHash = await this.mine(sender, data, expected);
+    await this.mineQueued(sender);
+    return transactionHash;
+  }
+
+  /**
+   * Mine held transactions of a sender that became next in order
+   * reverts are mined as failed, since the nonce is already taken
+   * @param sender
+   */
+  private async mineQueued(sender: string) {
+    const queue = this.queued.get(sender);
+    let nonce = this.nonces.get(sender) || 0;
+    while (queue && queue.has(nonce)) {
+      const data = queue.get(nonce) as string;
+      queue.delete(nonce);
+      try {
+        await this.mine(sender, data, nonce);
+      } catch (err) {
+        this.nonces.set(sender, nonce + 1);
+        this.blockNumber++;
+        this.receipt(sender, data, nonce, false, []);
+      }
+      nonce = this.nonces.get(sender) || 0;
+    }
+  }
+
+  /**
+   * Apply a transaction at nonce, reverts are thrown without mining
+   * @returns transaction hash
+   */
+  private async mine(sender: string, data: string, nonce: number): Promise<string> {
+    const [fragment, args] = this.decodeCall(data);
+    if (fragment.stateMutability === 'view') {
+      throw this.revert('Unsupported transaction');
+    }
+    // emitted once granted
+    const topics = (fragment.name === 'grantRole'
+      && !(await this.backend.hasRole(this.roleHashes[args.role], args.account)))
+      ? [[
+        this.web3.eth.abi.encodeEventSignature(FILESTORAGE_EVENTS.find(event => event.name === 'RoleGranted') as AbiEvent),
+        args.role,
+        this.web3.eth.abi.encodeParameter('address', args.account),
+        this.web3.eth.abi.encodeParameter('address', sender)
+      ]]
+      : [];
+    await this.write({ address: sender }, fragment.name, args);
+
+    this.nonces.set(sender, nonce + 1);
+    this.blockNumber++;
+
+    return this.receipt(sender, data, nonce, true, topics);
+  }
+
+  /**
+   * Record a transaction and its receipt in the latest block
+   * @param logs topics of logs emitted by the transaction, without data
+   * @returns transaction hash
+   */
+  private receipt(sender: string, data: string, nonce: number, success: boolean, logs: string[][]): string {
+    const transactionHash = this.transactionHash(sender, nonce, data);
+    const block = this.block(this.blockNumber);
+    const gasUsed = Web3.utils.toHex(this.gas(data));
+    this.blockTransactions.set(this.blockNumber, transactionHash);
+    this.transactions.set(transactionHash, {
+      hash: transactionHash,
+      nonce: Web3.utils.toHex(nonce),
+      blockHash: block.hash,
+      blockNumber: block.number,
+      transactionIndex: '0x0',
+      from: sender,
+      to: FILESTORAGE_ADDRESS.toLowerCase(),
+      value: '0x0',
+      gas: gasUsed,
+      gasPrice: '0x1',
+      input: data,
+    });
+    this.receipts.set(transactionHash, {
+      transactionHash,
+      transactionIndex: '0x0',
+      blockHash: block.hash,
+      blockNumber: block.number,
+      from: sender,
+      to: FILESTORAGE_ADDRESS.toLowerCase(),
+      cumulativeGasUsed: gasUsed,
+      gasUsed,
+      effectiveGasPrice: '0x1',
+      contractAddress: null,
+      logs: logs.map((topics, index) => ({
+        address: FILESTORAGE_ADDRESS.toLowerCase(),
+        topics,
+        data: '0x',
+        blockNumber: block.number,
+        blockHash: block.hash,
+        transactionHash,
+        transactionIndex: '0x0',
+        logIndex: Web3.utils.toHex(index),
+        removed: false,
+      })),
+      logsBloom: '0x' + '0'.repeat(512),
+      status: success ? '0x1' : '0x0',
+      type: '0x0',
+    });
+    return transactionHash;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Multi-transaction mode (MTM) of SKALE chains accepts several transactions of a sender per block
+ * the pool keeps up to the limit of the chain in flight, nonces are kept distinct by NonceManager
+ * without a limit transactions are sent as they come
+ */
+export class TransactionPool {
+
+  readonly limit: number;
+
+  private active: number;
+  private waiting: Array<() => void>; // by order of arrival
+
+  constructor(limit: number = Infinity) {
+    this.limit = Math.max(1, limit);
+    this.active = 0;
+    this.waiting = [];
+  }
+
+  /**
+   * Send a transaction once a slot is free, until its receipt
+   * @param transaction
+   */
+  async send<T>(transaction: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // slot is handed over by the finished transaction
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await transaction();
+    } finally {
+      const next = this.waiting.shift();
+      next ? next() : this.active--;
+    }
+  }
+}
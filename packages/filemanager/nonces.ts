@@ -0,0 +1,38 @@
+import type { Address } from './types';
+
+/**
+ * Assigns transaction nonces per signer locally
+ * so concurrent transactions of a signer do not reuse a nonce
+ * the first nonce is fetched from chain, and again after a reset
+ */
+export class NonceManager {
+
+  private nonces: Map<string, Promise<number>>; // next nonce by lowercase address
+
+  constructor() {
+    this.nonces = new Map();
+  }
+
+  /**
+   * Reserve the next nonce of an address
+   * @param address
+   * @param fetch transaction count of address on chain, including pending
+   */
+  next(address: Address, fetch: () => Promise<number>): Promise<number> {
+    const key = address.toLowerCase();
+    const nonce = this.nonces.get(key) || fetch();
+    const following = nonce.then(nonce => nonce + 1);
+    // failed fetch is retried by the next call
+    following.catch(() => this.nonces.get(key) === following && this.nonces.delete(key));
+    this.nonces.set(key, following);
+    return nonce;
+  }
+
+  /**
+   * Forget local nonces of an address, ex: after a transaction failed to be sent
+   * @param address
+   */
+  reset(address: Address) {
+    this.nonces.delete(address.toLowerCase());
+  }
+}
@@ -0,0 +1,168 @@
+import type { Address, RelativePath } from './types';
+
+import { Buffer } from 'buffer';
+
+import utils from './utils';
+const { sanitizeAddress } = utils;
+
+import { PATH } from './constants';
+import { InvalidPathError } from './errors';
+
+/**
+ * Path of a file or directory relative to an address home, immutable
+ * parsed paths are normalized: empty and "." segments are dropped and ".." steps up, so leading, trailing and duplicate slashes are ignored
+ * ex: DePath.parse('photos//2021/../2022/').join('a.png').toString() === 'photos/2022/a.png'
+ */
+export class DePath {
+
+  static readonly ROOT = new DePath([]);
+
+  readonly segments: ReadonlyArray<string>;
+
+  private constructor(segments: string[]) {
+    this.segments = Object.freeze(segments);
+  }
+
+  /**
+   * Normalize a relative path, throwing InvalidPathError for paths above the address home or invalid names
+   * @param path
+   */
+  static parse(path: RelativePath | DePath): DePath {
+    if (path instanceof DePath) return path;
+    if (path.length > PATH.MAX_LENGTH)
+      throw new InvalidPathError();
+    let segments: string[] = [];
+    for (const segment of path.split('/')) {
+      if (!segment || segment === '.') continue;
+      if (segment === '..') {
+        if (!segments.length)
+          throw new InvalidPathError();
+        segments.pop();
+        continue;
+      }
+      if (!DePath.isValidName(segment))
+        throw new InvalidPathError();
+      segments.push(segment);
+    }
+    return new DePath(segments);
+  }
+
+  /**
+   * Path as listed by storage or carried by entries, taken as is
+   * @param path
+   */
+  static from(path: RelativePath | DePath): DePath {
+    if (path instanceof DePath) return path;
+    return new DePath(path.split('/').filter(Boolean));
+  }
+
+  /**
+   * Relative path of a storage path, its first segment being the address home
+   * @param storagePath
+   */
+  static fromStoragePath(storagePath: string): DePath {
+    return new DePath(storagePath.split('/').filter(Boolean).slice(1));
+  }
+
+  /**
+   * Name of a file or directory as accepted by the contract, see PATH
+   * @param name
+   */
+  static isValidName(name: string): boolean {
+    return !!name && name !== '.' && name !== '..'
+      && !name.includes('/')
+      && !PATH.INVALID_CHARACTERS.test(name)
+      && Buffer.byteLength(name) <= PATH.MAX_NAME_LENGTH;
+  }
+
+  get isRoot(): boolean {
+    return this.segments.length === 0;
+  }
+
+  get depth(): number {
+    return this.segments.length;
+  }
+
+  /**
+   * Directory of the path, the root for the root
+   */
+  get parent(): DePath {
+    return this.isRoot ? this : new DePath(this.segments.slice(0, -1));
+  }
+
+  /**
+   * Name of the file or directory, empty for the root
+   */
+  get basename(): string {
+    return this.segments[this.segments.length - 1] || '';
+  }
+
+  /**
+   * Extension of the name from its last dot, ex: ".png", empty without one or for dotfiles
+   */
+  get extname(): string {
+    const index = this.basename.lastIndexOf('.');
+    return index > 0 ? this.basename.slice(index) : '';
+  }
+
+  /**
+   * Path of relative paths resolved against this one, normalized and validated
+   * ex: DePath.parse('a/b').join('../c', 'd') is "a/c/d"
+   * @param paths
+   */
+  join(...paths: Array<RelativePath | DePath>): DePath {
+    return DePath.parse([this, ...paths].map(String).join('/'));
+  }
+
+  /**
+   * Path of a named entry within this one, throwing InvalidPathError for an invalid name, see isValidName
+   * @param name taken as is, not parsed
+   */
+  child(name: string): DePath {
+    if (!DePath.isValidName(name))
+      throw new InvalidPathError();
+    return new DePath([...this.segments, name]);
+  }
+
+  /**
+   * Whether the path is the given one or within it
+   * @param ancestor
+   */
+  isWithin(ancestor: RelativePath | DePath): boolean {
+    const { segments } = DePath.from(ancestor);
+    return segments.length <= this.segments.length
+      && segments.every((segment, index) => segment === this.segments[index]);
+  }
+
+  /**
+   * Path from base to this one, with ".." for each step up, empty for the same path
+   * ex: DePath.parse('a/b/c').relativeTo('a/d') is "../b/c"
+   * @param base
+   */
+  relativeTo(base: RelativePath | DePath): string {
+    const { segments } = DePath.from(base);
+    let common = 0;
+    while (common < segments.length && segments[common] === this.segments[common]) common++;
+    return [
+      ...segments.slice(common).map(() => '..'),
+      ...this.segments.slice(common)
+    ].join('/');
+  }
+
+  equals(other: RelativePath | DePath): boolean {
+    return this.toString() === DePath.from(other).toString();
+  }
+
+  /**
+   * Absolute path in storage, within the home of an address
+   * @param address with or without prefix
+   */
+  toStoragePath(address: Address): string {
+    const home = sanitizeAddress(address, { prefix: false, checksum: false });
+    return [home, ...this.segments].join('/');
+  }
+
+  toString(): RelativePath {
+    return this.segments.join('/');
+  }
+}
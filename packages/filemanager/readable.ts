@@ -0,0 +1,25 @@
+import { Readable } from 'stream';
+
+import type { DeFile } from './defilemanager';
+
+/**
+ * NodeJS Readable adapter for DeFile.stream, kept apart to not burden browser bundles
+ * @param file 
+ */
+export function toReadable(file: DeFile): Readable {
+  const reader = file.stream().getReader();
+
+  async function* iterate() {
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  return Readable.from(iterate());
+}
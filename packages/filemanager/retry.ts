@@ -0,0 +1,47 @@
+import type { RetryPolicy } from './types';
+
+import { RETRY } from './constants';
+import { CancelledError, isRetryable } from './errors';
+
+/**
+ * Retry policy with defaults for unset fields
+ * @param policy
+ */
+export function retryPolicy(policy: RetryPolicy = {}): Required<RetryPolicy> {
+  return {
+    attempts: Math.max(1, Math.floor(policy.attempts ?? RETRY.ATTEMPTS)),
+    delay: policy.delay ?? RETRY.DELAY,
+    factor: policy.factor ?? RETRY.FACTOR,
+    maxDelay: policy.maxDelay ?? RETRY.MAX_DELAY,
+    retryable: policy.retryable || isRetryable
+  };
+}
+
+/**
+ * Delay before a retry, growing exponentially up to the max delay
+ * @param policy
+ * @param attempt failed attempt, 1 for the first
+ */
+export function backoff(policy: Required<RetryPolicy>, attempt: number): number {
+  return Math.min(policy.maxDelay, policy.delay * Math.pow(policy.factor, attempt - 1));
+}
+
+/**
+ * Wait for a delay, rejected as cancelled once signal is aborted
+ * @param ms
+ * @param signal
+ */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) return reject(new CancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal && signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal && signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
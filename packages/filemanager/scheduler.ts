@@ -0,0 +1,114 @@
+import type { RelativePath, OperationEvent, ScheduledTask } from './types';
+
+import { Subject } from 'rxjs';
+
+import { DePath } from './path';
+
+/**
+ * Runs queued operations with limited concurrency
+ * ready operations start by priority lane, then by order of submission
+ * an operation waits for earlier ones on the same path, its ancestors or descendants
+ * ex: creating a directory completes before uploads into it start
+ */
+export class Scheduler {
+
+  readonly concurrency: number;
+  // events of completed operations, in order of completion
+  readonly completed: Subject<OperationEvent>;
+
+  private queue: ScheduledTask[]; // by order of submission
+  private running: ScheduledTask[];
+  private isPaused: boolean;
+
+  constructor(concurrency: number = 1) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.completed = new Subject();
+    this.queue = [];
+    this.running = [];
+    this.isPaused = false;
+  }
+
+  /**
+   * Operations waiting to start
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Operations started and not completed
+   */
+  get active(): number {
+    return this.running.length;
+  }
+
+  /**
+   * Whether pending operations are held back
+   */
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * Hold back pending operations, running ones continue
+   */
+  pause() {
+    this.isPaused = true;
+  }
+
+  resume() {
+    this.isPaused = false;
+    this.next();
+  }
+
+  schedule(task: ScheduledTask) {
+    this.queue.push(task);
+    this.next();
+  }
+
+  /**
+   * Remove an operation waiting to start
+   * @param id
+   * @returns removed operation, if it was pending
+   */
+  remove(id: string): ScheduledTask | undefined {
+    const index = this.queue.findIndex(task => task.id === id);
+    if (index < 0) return;
+    const [task] = this.queue.splice(index, 1);
+    // dependents of the removed operation may be ready
+    this.next();
+    return task;
+  }
+
+  private overlaps(path: RelativePath, other: RelativePath) {
+    const [one, another] = [DePath.from(path), DePath.from(other)];
+    return one.isWithin(another) || another.isWithin(one);
+  }
+
+  private conflicts(task: ScheduledTask, other: ScheduledTask) {
+    return task.paths.some(path => other.paths.some(otherPath => this.overlaps(path, otherPath)));
+  }
+
+  private isReady(task: ScheduledTask, index: number) {
+    return !this.running.some(other => this.conflicts(task, other))
+      && !this.queue.slice(0, index).some(other => this.conflicts(task, other));
+  }
+
+  private next() {
+    while (!this.isPaused && this.running.length < this.concurrency) {
+      const ready = this.queue.filter((task, index) => this.isReady(task, index));
+      if (!ready.length) return;
+
+      // first of the highest lane keeps submission order within lanes
+      const task = ready.reduce((best, task) => (task.priority < best.priority) ? task : best);
+      this.queue.splice(this.queue.indexOf(task), 1);
+      this.running.push(task);
+
+      task.run().then((event) => {
+        this.running.splice(this.running.indexOf(task), 1);
+        this.completed.next(event);
+        this.next();
+      });
+    }
+  }
+}
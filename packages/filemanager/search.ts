@@ -0,0 +1,120 @@
+import type { RelativePath, SearchQuery, SearchResult, NumberRange } from './types';
+import type { FileOrDir, DeFile } from './defilemanager';
+
+import Fuse from 'fuse.js';
+import { DePath } from './path';
+import { KIND, SEARCH, SEARCH_MODE } from './constants';
+import { InvalidQueryError } from './errors';
+
+/**
+ * Filters and name matching of a search query, compiled once per search
+ * listings are matched one at a time, with scores comparable across listings to rank a whole tree
+ * ex: new SearchMatcher({ name: 'logo', mode: SEARCH_MODE.PREFIX, type: 'image/*' }, 'www')
+ */
+export class SearchMatcher {
+
+  private readonly query: SearchQuery;
+  private readonly base: RelativePath; // of the searched directory
+  private readonly mode: string;
+  private readonly text: string; // lowercase name of exact, prefix and fuzzy modes
+  private readonly regex?: RegExp;
+  private readonly types: string[];
+  private readonly extensions: string[];
+
+  constructor(query: SearchQuery, base: RelativePath = '') {
+    this.query = query;
+    this.base = base;
+    this.mode = query.name instanceof RegExp ? SEARCH_MODE.REGEX : (query.mode || SEARCH.MODE);
+    if (!Object.values(SEARCH_MODE).includes(this.mode))
+      throw new InvalidQueryError();
+    this.text = typeof query.name === 'string' ? query.name.trim().toLowerCase() : '';
+    if (this.mode === SEARCH_MODE.REGEX && query.name) {
+      try {
+        this.regex = query.name instanceof RegExp ? query.name : new RegExp(query.name, 'i');
+      } catch (err) {
+        throw new InvalidQueryError({ cause: err });
+      }
+    }
+    this.types = ([] as string[]).concat(query.type || []).map(type => type.toLowerCase());
+    this.extensions = ([] as string[]).concat(query.extension || [])
+      .map(extension => (extension.startsWith('.') ? extension : '.' + extension).toLowerCase());
+  }
+
+  /**
+   * Results of a listing, passing filters and matching the name, best first
+   * @param entries of a directory within the searched one
+   */
+  match(entries: FileOrDir[]): SearchResult[] {
+    const filtered = entries.filter(entry => this.filter(entry));
+    if (!this.regex && !this.text) {
+      return filtered.map(entry => ({ entry, score: 0 }));
+    }
+    if (this.mode === SEARCH_MODE.FUZZY) {
+      const fuse = new Fuse(filtered, { keys: ['name'], includeScore: true, threshold: SEARCH.FUZZY_THRESHOLD });
+      return fuse.search(this.text).map(({ item, score }) => ({ entry: item, score: score || 0 }));
+    }
+    let results: SearchResult[] = [];
+    for (const entry of filtered) {
+      const score = this.score(entry.name);
+      score !== undefined && results.push({ entry, score });
+    }
+    return results.sort((a, b) => a.score - b.score);
+  }
+
+  /**
+   * Whether a directory is to be listed, with entries within path prefix and depth
+   * @param directory within the searched one
+   */
+  descends(directory: FileOrDir): boolean {
+    const path = DePath.from(directory.path).relativeTo(this.base);
+    const { path: prefix, depth } = this.query;
+    return (depth?.max === undefined || DePath.from(path).depth < depth.max)
+      && (!prefix || path.startsWith(prefix) || prefix.startsWith(path + '/'));
+  }
+
+  private filter(entry: FileOrDir): boolean {
+    const { kind, size, path: prefix, depth } = this.query;
+    const path = DePath.from(entry.path).relativeTo(this.base);
+    if (kind && entry.kind !== kind) return false;
+    if (prefix && !path.startsWith(prefix)) return false;
+    if (depth && !inRange(DePath.from(path).depth, depth)) return false;
+    if (!size && !this.types.length && !this.extensions.length) return true;
+    if (entry.kind !== KIND.FILE) return false;
+    const file = entry as DeFile;
+    return (!size || inRange(file.size, size))
+      && (!this.types.length || this.types.some(type => matchType(type, file.type)))
+      && (!this.extensions.length || this.extensions.includes(DePath.from(file.path).extname.toLowerCase()));
+  }
+
+  /**
+   * Score of a name by exact, prefix or regex mode, undefined for no match
+   * the larger the part of the name matched, the closer to 0
+   * @param name
+   */
+  private score(name: string): number | undefined {
+    if (this.regex) {
+      const match = name.match(this.regex);
+      return match ? 1 - match[0].length / name.length : undefined;
+    }
+    const lowercase = name.toLowerCase();
+    if (this.mode === SEARCH_MODE.EXACT) {
+      return lowercase === this.text ? 0 : undefined;
+    }
+    return lowercase.startsWith(this.text) ? 1 - this.text.length / name.length : undefined;
+  }
+}
+
+function inRange(value: number, { min, max }: NumberRange): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+/**
+ * Whether a MIME type matches a filter of one, "image/*" for any subtype
+ * @param filter lowercase
+ * @param type of a file, empty when unknown by extension
+ */
+function matchType(filter: string, type: string): boolean {
+  if (!type) return false;
+  type = type.toLowerCase();
+  return filter.endsWith('/*') ? type.startsWith(filter.slice(0, -1)) : type === filter;
+}
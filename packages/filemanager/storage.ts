@@ -0,0 +1,114 @@
+import type { KeyValueStorage } from './types';
+
+/**
+ * Key-value storage adapters used for persisting state across instances,
+ * ex: upload sessions for resumable uploads, journal of queued operations
+ */
+
+export class MemoryStorage<T> implements KeyValueStorage<T> {
+  private data: Map<string, T>;
+
+  constructor() {
+    this.data = new Map();
+  }
+
+  async get(key: string) {
+    return this.data.get(key);
+  }
+
+  async set(key: string, value: T) {
+    this.data.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.data.delete(key);
+  }
+
+  async keys() {
+    return Array.from(this.data.keys());
+  }
+}
+
+/**
+ * Web Storage backed adapter, survives page reloads with window.localStorage
+ */
+export class WebStorage<T> implements KeyValueStorage<T> {
+  private storage: Storage;
+  private prefix: string;
+
+  constructor(prefix: string, storage: Storage = window.localStorage) {
+    this.prefix = prefix;
+    this.storage = storage;
+  }
+
+  async get(key: string) {
+    const value = this.storage.getItem(this.prefix + key);
+    return (value === null) ? undefined : JSON.parse(value) as T;
+  }
+
+  async set(key: string, value: T) {
+    this.storage.setItem(this.prefix + key, JSON.stringify(value));
+  }
+
+  async delete(key: string) {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  async keys() {
+    let keys = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key && key.startsWith(this.prefix)) {
+        keys.push(key.slice(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * IndexedDB backed adapter, survives page reloads without the size limits of Web Storage
+ * uses one object store per database
+ */
+export class IndexedDBStorage<T> implements KeyValueStorage<T> {
+  private db: Promise<IDBDatabase>;
+  private store: string;
+
+  constructor(name: string, store: string = 'entries', factory: IDBFactory = window.indexedDB) {
+    this.store = store;
+    this.db = new Promise((resolve, reject) => {
+      const request = factory.open(name, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async request<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> {
+    const db = await this.db;
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.store, mode).objectStore(this.store));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async get(key: string) {
+    return (await this.request('readonly', store => store.get(key))) as T | undefined;
+  }
+
+  async set(key: string, value: T) {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async delete(key: string) {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys() {
+    return (await this.request('readonly', store => store.getAllKeys())).map(String);
+  }
+}
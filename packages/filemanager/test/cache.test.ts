@@ -0,0 +1,129 @@
+import { describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { FileStorageFile } from '@skalenetwork/filestorage.js';
+import type { IndexedListing } from '../types';
+
+import { ListingCache } from '../cache';
+import { MemoryStorage } from '../storage';
+import { setup } from './helpers';
+
+function listing(...names: string[]): FileStorageFile[] {
+  return names.map(name => ({
+    name,
+    storagePath: 'home/' + name,
+    isFile: true,
+    size: 1,
+    status: 2,
+    isChunkUploaded: [true],
+    uploadingProgress: 100
+  }));
+}
+
+describe('ListingCache', () => {
+
+  it('serves listings fresh for ttl, then stale until revalidation expires', (t: TestContext) => {
+    let now = 0;
+    t.mock.method(Date, 'now', () => now);
+    const cache = new ListingCache({ ttl: 100, staleWhileRevalidate: 50 });
+    cache.set('home', listing('a'));
+
+    now = 100;
+    assert.deepEqual(cache.get('home'), { entries: listing('a'), stale: false });
+    now = 150;
+    assert.equal(cache.get('home')?.stale, true);
+    now = 151;
+    assert.equal(cache.get('home'), undefined);
+    assert.deepEqual(cache.stats(), { hits: 1, stale: 1, misses: 1, evictions: 0, entries: 0, bytes: 0 });
+  });
+
+  it('evicts least recently used listings past max entries', () => {
+    const cache = new ListingCache({ maxEntries: 2 });
+    cache.set('a', listing('a'));
+    cache.set('b', listing('b'));
+    cache.get('a');
+    cache.set('c', listing('c'));
+    assert.ok(cache.get('a'));
+    assert.equal(cache.get('b'), undefined);
+    assert.ok(cache.get('c'));
+    assert.equal(cache.stats().evictions, 1);
+  });
+
+  it('keeps listings within max bytes, skipping larger ones', () => {
+    const bytes = JSON.stringify(listing('a')).length;
+    const cache = new ListingCache({ maxBytes: bytes * 2 });
+    cache.set('a', listing('a'));
+    cache.set('b', listing('b'));
+    cache.set('large', listing('x', 'y', 'z'));
+    assert.equal(cache.get('large'), undefined);
+    assert.deepEqual([cache.stats().entries, cache.stats().bytes], [2, bytes * 2]);
+    cache.set('c', listing('c'));
+    assert.equal(cache.get('a'), undefined);
+  });
+
+  it('invalidates a listing, or a subtree of them', () => {
+    const cache = new ListingCache();
+    for (const path of ['home', 'home/a', 'home/a/b', 'home/ab']) cache.set(path, listing('x'));
+    cache.invalidate('home/a');
+    assert.equal(cache.get('home/a'), undefined);
+    assert.ok(cache.get('home/a/b'));
+    cache.invalidate('home', true);
+    assert.equal(cache.stats().entries, 0);
+  });
+
+  it('skips listings loaded across an invalidation', () => {
+    const cache = new ListingCache();
+    const generation = cache.generation;
+    cache.invalidate('home');
+    cache.set('home', listing('a'), generation);
+    assert.equal(cache.get('home'), undefined);
+  });
+});
+
+describe('ListingCache with a directory index', () => {
+
+  it('persists listings under the namespace and restores them as stale', async () => {
+    const storage = new MemoryStorage<IndexedListing>();
+    const cache = new ListingCache({}, storage, '1');
+    cache.set('home', listing('a'));
+    cache.set('home/www', listing('b'));
+    cache.set('other', listing('c'));
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual((await storage.keys()).sort(), ['1:home', '1:home/www', '1:other']);
+
+    const restored = new ListingCache({}, storage, '1');
+    assert.deepEqual((await restored.restore('home')).sort(), ['home', 'home/www']);
+    assert.deepEqual(restored.get('home/www'), { entries: listing('b'), stale: true });
+    assert.equal(restored.get('other'), undefined);
+    assert.deepEqual(await new ListingCache({}, storage, '2').restore('home'), []);
+  });
+
+  it('removes invalidated listings from the index', async () => {
+    const storage = new MemoryStorage<IndexedListing>();
+    const cache = new ListingCache({}, storage);
+    cache.set('home', listing('a'));
+    cache.invalidate('home');
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(await storage.keys(), []);
+  });
+});
+
+describe('listings of DeFileManager', () => {
+
+  it('are cached until changed by an operation', async () => {
+    // preflight lists destinations afresh
+    const { fm, root, backend } = await setup({}, { preflight: false });
+    let listed = 0;
+    const listDirectory = backend.listDirectory.bind(backend);
+    backend.listDirectory = (storagePath) => (listed++, listDirectory(storagePath));
+
+    const home = fm.absolutePath(root);
+    await Promise.all([fm.loadDirectory(home), fm.loadDirectory(home)]);
+    await fm.loadDirectory(home);
+    assert.equal(listed, 1);
+
+    await fm.createDirectory(root, 'www');
+    assert.deepEqual((await fm.loadDirectory(home)).map(entry => entry.name), ['www']);
+    assert.equal(listed, 2);
+  });
+});
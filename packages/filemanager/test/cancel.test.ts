@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DeFile } from '../defilemanager';
+
+import { FILE_STATUS, OPERATION, STATUS } from '../constants';
+import { CancelledError, isOperationFailure } from '../errors';
+import { setup, fileLike, contents } from './helpers';
+
+const isCancelled = (err: unknown) =>
+  isOperationFailure(err, OPERATION.UPLOAD_FILE)
+  && err.status === STATUS.CANCELLED
+  && err.result.error instanceof CancelledError;
+
+describe('cancellation', () => {
+
+  it('removes a queued operation before it starts', async () => {
+    const { fm, root, backend } = await setup();
+    const events: [string, string][] = [];
+    fm.bus.subscribe(({ id, status }) => events.push([id, status]));
+    const controller = new AbortController();
+
+    const first = fm.uploadFile(root, fileLike('a.txt', 'a'));
+    const second = fm.uploadFile(root, fileLike('b.txt', 'b'), { signal: controller.signal });
+    controller.abort();
+
+    await assert.rejects(second, isCancelled);
+    await first;
+    const [, id] = events.filter(([, status]) => status === STATUS.QUEUED).map(([id]) => id);
+    assert.deepEqual(events.filter(event => event[0] === id).map(([, status]) => status), [STATUS.QUEUED, STATUS.CANCELLED]);
+    assert.equal(await backend.getFileStatus(fm.absolutePath(root) + '/b.txt'), FILE_STATUS.NO_EXIST);
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'a');
+  });
+
+  it('stops a running upload between chunks and deletes the partial file', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 4 });
+    const controller = new AbortController();
+    const progress: number[] = [];
+    fm.on(OPERATION.UPLOAD_FILE, STATUS.PROGRESS, (event) => {
+      progress.push(event.result.progress.loaded);
+      controller.abort();
+    });
+    const cancelled: string[] = [];
+    fm.on(OPERATION.UPLOAD_FILE, STATUS.CANCELLED, (event) => cancelled.push(event.result.file.name));
+
+    await assert.rejects(fm.uploadFile(root, fileLike('a.txt', 'hello world!'), { signal: controller.signal }), isCancelled);
+    assert.deepEqual(progress, [4]);
+    assert.deepEqual(cancelled, ['a.txt']);
+    assert.equal(await backend.getFileStatus(fm.absolutePath(root) + '/a.txt'), FILE_STATUS.NO_EXIST);
+    assert.equal(await fm.resolvePath('a.txt'), undefined);
+  });
+
+  it('cancels by id of the operation, once', async () => {
+    const { fm, root } = await setup({ maxChunkSize: 4 });
+    const ids: string[] = [];
+    fm.on(OPERATION.UPLOAD_FILE, STATUS.STARTED, (event) => ids.push(event.id));
+    fm.on(OPERATION.UPLOAD_FILE, STATUS.PROGRESS, (event) => fm.cancel(event.id));
+
+    await assert.rejects(fm.uploadFile(root, fileLike('a.txt', 'hello world!')), isCancelled);
+    assert.equal(fm.cancel(ids[0]), false);
+    assert.equal(fm.cancel('unknown'), false);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { firstValueFrom } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+import type { ObservedChange } from '../types';
+
+import { DeFileManager } from '../defilemanager';
+import { OPERATION, STATUS, TRANSACTION } from '../constants';
+import { wait } from '../retry';
+import { setup, USER } from './helpers';
+
+describe('watchChain', () => {
+
+  it('emits changes of another manager as observed, refreshing listings', async () => {
+    const { fm, backend } = await setup({}, { blockInterval: 10 });
+    const other = new DeFileManager({}, USER, USER, undefined, { backend });
+    // listed before the change
+    assert.equal(await fm.resolvePath('www'), undefined);
+
+    const observed = new Promise<ObservedChange>(resolve =>
+      fm.on(OPERATION.CREATE_DIRECTORY, STATUS.OBSERVED, (event) => resolve(event.result))
+    );
+    const subscription = fm.watchChain();
+    try {
+      // past the first block, from which changes are followed
+      await wait(30);
+      await other.createDirectory(other.rootDirectory(), 'www');
+      const { event, path, directory } = await observed;
+      assert.deepEqual(
+        { event, path, directory },
+        { event: TRANSACTION.CREATE_DIRECTORY, path: 'www', directory: '' }
+      );
+      assert.equal((await fm.resolvePath('www'))?.kind, 'directory');
+    } finally {
+      subscription.unsubscribe();
+    }
+  });
+
+  it('does not observe transactions of its own operations', async () => {
+    const { fm, root, backend } = await setup({}, { blockInterval: 10 });
+    const other = new DeFileManager({}, USER, USER, undefined, { backend });
+    const paths: (string | undefined)[] = [];
+    fm.on(OPERATION.CREATE_DIRECTORY, STATUS.OBSERVED, (event) => paths.push(event.result.path));
+
+    const subscription = fm.watchChain();
+    try {
+      await wait(30);
+      await fm.createDirectory(root, 'own');
+      await other.createDirectory(other.rootDirectory(), 'other');
+      await firstValueFrom(fm.bus.pipe(filter(event => event.status === STATUS.OBSERVED)));
+      await wait(30);
+      assert.deepEqual(paths, ['other']);
+    } finally {
+      subscription.unsubscribe();
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DeDirectory, DeFile } from '../defilemanager';
+
+import { OPERATION, STATUS } from '../constants';
+import { DeFileManagerError, InsufficientSpaceError, InvalidPathError, isOperationFailure } from '../errors';
+import { setup, fileLike, contents, failOnce } from './helpers';
+
+async function names(directory: DeDirectory): Promise<string[]> {
+  const names: string[] = [];
+  for await (const entry of directory.entries()) names.push(entry.name);
+  return names.sort();
+}
+
+describe('DeFileManager over MemoryBackend', () => {
+
+  it('creates and lists directories', async () => {
+    const { fm, root } = await setup();
+    const { result } = await fm.createDirectory(root, 'www');
+    await fm.createDirectory(result.directory, 'assets');
+    assert.deepEqual(await names(root), ['www']);
+    assert.equal((await fm.resolvePath('www/assets'))?.kind, 'directory');
+  });
+
+  it('uploads a file in chunks, with progress', async () => {
+    const { fm, root } = await setup({ maxChunkSize: 4 });
+    const progress: number[] = [];
+    fm.on(OPERATION.UPLOAD_FILE, STATUS.PROGRESS, (event) => progress.push(event.result.progress.loaded));
+    await fm.uploadFile(root, fileLike('a.txt', 'hello world!'));
+    assert.deepEqual(progress, [4, 8, 12]);
+    const file = await fm.resolvePath('a.txt') as DeFile;
+    assert.equal(file.size, 12);
+    assert.equal(await contents(file), 'hello world!');
+    assert.equal((await fm.readRange(file, 2, 7)).toString(), 'llo w');
+    assert.equal((await fm.downloadFile(file)).toString(), 'hello world!');
+  });
+
+  it('confirms transactions past the block they are mined in', async () => {
+    const { fm, root } = await setup({}, { confirmations: 2 });
+    const confirmations: Array<number | undefined> = [];
+    fm.on(OPERATION.CREATE_DIRECTORY, STATUS.CONFIRMED, (event) => confirmations.push(event.result.transaction.confirmations));
+    await fm.createDirectory(root, 'www');
+    assert.deepEqual(confirmations, [2]);
+  });
+
+  it('deletes files and directories with their contents', async () => {
+    const { fm, root } = await setup();
+    const { result } = await fm.createDirectory(root, 'www');
+    await fm.uploadFile(result.directory, fileLike('index.html', '<html>'));
+    await fm.uploadFile(root, fileLike('a.txt', 'a'));
+    await fm.deleteFile(root, await fm.resolvePath('a.txt') as DeFile);
+    await fm.deleteDirectory(result.directory);
+    assert.deepEqual(await names(root), []);
+  });
+
+  it('rejects deletion of a directory that fails to be listed', async () => {
+    const { fm, root, backend } = await setup();
+    const { result } = await fm.createDirectory(root, 'www');
+    await fm.uploadFile(result.directory, fileLike('index.html', '<html>'));
+    fm.invalidateCache();
+    failOnce(backend, 'listDirectory', 1, Error('boom'));
+    await assert.rejects(fm.deleteDirectory(result.directory), DeFileManagerError);
+    assert.deepEqual(await names(result.directory), ['index.html']);
+  });
+
+  it('renames, moves and copies entries', async () => {
+    const { fm, root } = await setup({ maxChunkSize: 4 });
+    const { result } = await fm.createDirectory(root, 'www');
+    await fm.uploadFile(result.directory, fileLike('index.html', '<html></html>'));
+    await fm.rename(await fm.resolvePath('www/index.html') as DeFile, 'home.html');
+    const copy = await fm.copy(result.directory, root, 'backup');
+    assert.ok(copy.result.entries.every(entry => entry.status === STATUS.SUCCESS));
+    await fm.move(await fm.resolvePath('backup/home.html') as DeFile, root);
+    assert.deepEqual(await names(root), ['backup', 'home.html', 'www']);
+    assert.equal(await contents(await fm.resolvePath('home.html') as DeFile), '<html></html>');
+    assert.equal(await contents(await fm.resolvePath('www/home.html') as DeFile), '<html></html>');
+  });
+
+  it('rejects a copy into the source subtree', async () => {
+    const { fm, root } = await setup();
+    const { result } = await fm.createDirectory(root, 'www');
+    await assert.rejects(fm.copy(root, result.directory), InvalidPathError);
+    await assert.rejects(fm.move(result.directory, result.directory), InvalidPathError);
+  });
+
+  it('rejects uploads past reserved space before sending transactions', async () => {
+    const { fm, root, backend } = await setup({}, {}, 8);
+    await assert.rejects(fm.uploadFile(root, fileLike('a.txt', 'hello world!')), (err: unknown) =>
+      isOperationFailure(err, OPERATION.UPLOAD_FILE) && err.result.error instanceof InsufficientSpaceError
+    );
+    assert.deepEqual(await backend.listDirectory(fm.absolutePath(root)), []);
+  });
+});
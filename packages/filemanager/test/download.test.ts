@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DeFile } from '../defilemanager';
+
+import { toReadable } from '../readable';
+import { setup, fileLike } from './helpers';
+
+async function file(content: string) {
+  const { fm, root, backend } = await setup({ maxChunkSize: 4 });
+  await fm.uploadFile(root, fileLike('a.txt', content));
+  // chunks read since uploaded
+  const reads: [number, number][] = [];
+  const readChunk = backend.readChunk.bind(backend);
+  backend.readChunk = async (storagePath, position, length) => {
+    reads.push([position, length]);
+    return readChunk(storagePath, position, length);
+  };
+  return { file: await fm.resolvePath('a.txt') as DeFile, reads };
+}
+
+describe('ranged and streamed downloads', () => {
+
+  it('slice a range across chunk boundaries, reading only the chunks it spans', async () => {
+    const { file: a, reads } = await file('hello world!');
+    assert.equal(Buffer.from(await a.slice(3, 10)).toString(), 'lo worl');
+    assert.deepEqual(reads, [[3, 4], [7, 3]]);
+    assert.equal(Buffer.from(await a.slice(8)).toString(), 'rld!');
+    assert.equal(Buffer.from(await a.slice(5, 5)).toString(), '');
+  });
+
+  it('stream contents chunk by chunk', async () => {
+    const { file: a, reads } = await file('hello world!!');
+    const reader = a.stream().getReader();
+    const chunks: string[] = [];
+    for (let read = await reader.read(); !read.done; read = await reader.read()) {
+      chunks.push(Buffer.from(read.value).toString());
+    }
+    assert.deepEqual(chunks, ['hell', 'o wo', 'rld!', '!']);
+    assert.deepEqual(reads.map(([position]) => position), [0, 4, 8, 12]);
+  });
+
+  it('stream contents as a NodeJS Readable', async () => {
+    const { file: a } = await file('hello world!');
+    const chunks: Buffer[] = [];
+    for await (const chunk of toReadable(a)) chunks.push(Buffer.from(chunk));
+    assert.equal(Buffer.concat(chunks).toString(), 'hello world!');
+    assert.equal(chunks.length, 3);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import Web3 from 'web3';
+
+import { ERROR_CODE, REVERT } from '../constants';
+import {
+  AlreadyExistsError, CancelledError, ContractRevertError, DeFileManagerError, InsufficientSpaceError,
+  NonceError, OfflineError, TimeoutError, isRetryable, revertReason, toDeFileManagerError
+} from '../errors';
+import { setup } from './helpers';
+
+// ABI encoded Error(string), as in revert data
+function revertData(reason: string) {
+  return '0x08c379a0' + new Web3().eth.abi.encodeParameter('string', reason).slice(2);
+}
+
+describe('revertReason', () => {
+
+  it('decodes reasons of revert data, nested as by providers', () => {
+    assert.equal(revertReason({ data: revertData(REVERT.EXISTS) }), REVERT.EXISTS);
+    assert.equal(revertReason({ data: { data: revertData(REVERT.NO_SPACE) } }), REVERT.NO_SPACE);
+    assert.equal(revertReason({ error: { data: revertData('Caller is not allowed — ✓') } }), 'Caller is not allowed — ✓');
+  });
+
+  it('decodes revert data that is not valid UTF-8 without throwing', () => {
+    const data = '0x08c379a0' + (32).toString(16).padStart(64, '0') + (2).toString(16).padStart(64, '0')
+      + 'ff'.repeat(2).padEnd(64, '0');
+    assert.equal(revertReason({ data }), '\ufffd\ufffd');
+  });
+
+  it('reads reasons of messages, and contract reasons within them', () => {
+    assert.equal(revertReason(Error('Returned error: execution reverted: Invalid path')), 'Invalid path');
+    assert.equal(revertReason({ reason: 'custom' }), 'custom');
+    assert.equal(revertReason(Error(`Transaction failed: ${REVERT.NOT_FOUND}`)), REVERT.NOT_FOUND);
+    assert.equal(revertReason(Error('socket hang up')), undefined);
+    assert.equal(revertReason(undefined), undefined);
+  });
+});
+
+describe('toDeFileManagerError', () => {
+
+  it('types reverts by reason, keeping the reason and the cause', () => {
+    const cause = { message: 'execution reverted', data: revertData(REVERT.NO_SPACE) };
+    const error = toDeFileManagerError(cause);
+    assert.ok(error instanceof InsufficientSpaceError);
+    assert.equal(error.code, ERROR_CODE.INSUFFICIENT_SPACE);
+    assert.equal(error.reason, REVERT.NO_SPACE);
+    assert.equal(error.cause, cause);
+
+    const unknown = toDeFileManagerError(Error('execution reverted: Unsupported method'));
+    assert.ok(unknown instanceof ContractRevertError);
+    assert.equal(unknown.reason, 'Unsupported method');
+  });
+
+  it('types transient failures by message', () => {
+    assert.ok(toDeFileManagerError(Error('CONNECTION ERROR: Couldn\'t connect to node')) instanceof OfflineError);
+    assert.ok(toDeFileManagerError(Error('Transaction was not mined within 750 seconds')) instanceof TimeoutError);
+    assert.ok(toDeFileManagerError(Error('nonce too low')) instanceof NonceError);
+    const error = toDeFileManagerError('failed');
+    assert.equal(error.code, ERROR_CODE.UNKNOWN);
+    assert.equal(error.cause, 'failed');
+  });
+
+  it('keeps typed errors, and takes them from rejections of operations', async () => {
+    const error = new CancelledError();
+    assert.equal(toDeFileManagerError(error), error);
+
+    const { fm, root } = await setup();
+    await fm.createDirectory(root, 'www');
+    const rejection = await fm.createDirectory(root, 'www').catch((err: unknown) => err);
+    assert.ok(toDeFileManagerError(rejection) instanceof AlreadyExistsError);
+  });
+});
+
+describe('isRetryable', () => {
+
+  it('retries transient failures, not reverts or cancellations', () => {
+    assert.equal(isRetryable(Error('read ECONNRESET')), true);
+    assert.equal(isRetryable(Error('timeout')), true);
+    assert.equal(isRetryable(Error('replacement transaction underpriced')), true);
+    assert.equal(isRetryable(Error(`execution reverted: ${REVERT.EXISTS}`)), false);
+    assert.equal(isRetryable(new CancelledError()), false);
+    assert.equal(isRetryable(new DeFileManagerError()), false);
+  });
+});
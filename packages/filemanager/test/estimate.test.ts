@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { GAS, OPERATION, REVERT } from '../constants';
+import { OfflineError } from '../errors';
+import { setup, fileLike, failOnce } from './helpers';
+
+// MemoryBackend.estimateGas, by calldata size of the selector and arguments
+const gas = (...bytes: number[]) => 21000 + 16 * bytes.reduce((total, length) => total + length, 4);
+
+describe('estimate', () => {
+
+  it('counts transactions, bytes and gas of uploads and deletes', async () => {
+    const { fm } = await setup({ maxChunkSize: 4 });
+    const estimate = await fm.estimate([
+      { type: OPERATION.CREATE_DIRECTORY, path: 'www' },
+      { type: OPERATION.UPLOAD_FILE, path: 'www/a.txt', file: fileLike('a.txt', 'hello world!!') },
+      { type: OPERATION.DELETE_FILE, path: 'www/a.txt' },
+      { type: OPERATION.DELETE_DIRECTORY, path: 'www' },
+    ]);
+
+    const upload = gas(9, 32) + 3 * gas(9, 32, 4) + gas(9, 32, 1) + gas(9);
+    assert.deepEqual(estimate.operations, [
+      { type: OPERATION.CREATE_DIRECTORY, path: 'www', transactions: 1, bytes: 0, gas: gas(3), exact: true },
+      { type: OPERATION.UPLOAD_FILE, path: 'www/a.txt', transactions: 6, bytes: 13, gas: upload, exact: true },
+      { type: OPERATION.DELETE_FILE, path: 'www/a.txt', transactions: 1, bytes: 0, gas: gas(9), exact: true },
+      { type: OPERATION.DELETE_DIRECTORY, path: 'www', transactions: 1, bytes: 0, gas: gas(3), exact: true },
+    ]);
+    assert.equal(estimate.transactions, 9);
+    assert.equal(estimate.bytes, 13);
+    assert.equal(estimate.gas, 2 * gas(3) + upload + gas(9));
+    assert.equal(estimate.exact, true);
+    // nothing sent
+    assert.equal(await fm.resolvePath('www'), undefined);
+  });
+
+  it('counts transactions reverting in estimation at their gas limit, not exact', async () => {
+    const { fm, backend } = await setup({ maxChunkSize: 4 });
+    // the first chunk, on a file not yet started
+    failOnce(backend, 'estimateGas', 2, Error(`execution reverted: ${REVERT.NOT_CREATED}`));
+    const estimate = await fm.estimate([
+      { type: OPERATION.UPLOAD_FILE, path: 'a.txt', file: fileLike('a.txt', 'hello') },
+      { type: OPERATION.DELETE_FILE, path: 'a.txt' },
+    ]);
+
+    const [upload, deletion] = estimate.operations;
+    assert.equal(upload.gas, gas(5, 32) + GAS.UPLOAD_CHUNK + gas(5, 32, 1) + gas(5));
+    assert.equal(upload.exact, false);
+    assert.equal(deletion.exact, true);
+    assert.equal(estimate.exact, false);
+  });
+
+  it('fails while offline', async () => {
+    const { fm, backend } = await setup();
+    failOnce(backend, 'estimateGas', 1, Error('connect ECONNREFUSED 127.0.0.1:8545'));
+    await assert.rejects(fm.estimate([{ type: OPERATION.DELETE_FILE, path: 'a.txt' }]), OfflineError);
+  });
+});
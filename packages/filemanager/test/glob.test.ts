@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DeDirectory } from '../defilemanager';
+
+import { Glob, GlobSet } from '../glob';
+import { KIND } from '../constants';
+import { InvalidPathError } from '../errors';
+import { setup, populate } from './helpers';
+
+describe('Glob', () => {
+
+  it('matches wildcards within names', () => {
+    const match = (pattern: string, path: string) => new Glob(pattern).match(path);
+    assert.ok(match('*.png', 'logo.png'));
+    assert.ok(!match('*.png', 'assets/logo.png'));
+    assert.ok(match('a?c', 'abc'));
+    assert.ok(match('[a-c]bc', 'bbc'));
+    assert.ok(!match('[!a]bc', 'abc'));
+    assert.ok(match('*.{png,jpg}', 'logo.jpg'));
+    assert.ok(match('{a,b/{c,d}}', 'b/d'));
+    assert.ok(match('\\*', '*'));
+    assert.ok(!match('\\*', 'x'));
+    assert.ok(!match('a.b', 'axb'));
+  });
+
+  it('matches any number of directories with a globstar', () => {
+    const glob = new Glob('assets/**/*.png');
+    assert.ok(glob.match('assets/a.png'));
+    assert.ok(glob.match('assets/x/y/a.png'));
+    assert.ok(!glob.match('assets/a.jpg'));
+    assert.ok(new Glob('**').match('a/b'));
+  });
+
+  it('tells directories that may contain matches', () => {
+    const glob = new Glob('assets/**/*.png');
+    assert.ok(glob.matchWithin(''));
+    assert.ok(glob.matchWithin('assets/x/y'));
+    assert.ok(!glob.matchWithin('src'));
+    assert.ok(new Glob('a/b').matchWithin('a'));
+    assert.ok(!new Glob('a/b').matchWithin('a/b'));
+    assert.ok(!new Glob('*.png').matchWithin('x'));
+  });
+
+  it('rejects patterns above the working directory', () => {
+    assert.throws(() => new Glob('../*'), InvalidPathError);
+  });
+});
+
+describe('GlobSet', () => {
+
+  it('matches any pattern and none of the negated ones', () => {
+    const globs = new GlobSet(['*.js', '*.css', '!vendor.*']);
+    assert.ok(globs.match('app.js'));
+    assert.ok(!globs.match('vendor.js'));
+    assert.ok(!globs.match('index.html'));
+  });
+
+  it('matches everything else with negated patterns only', () => {
+    const globs = new GlobSet('!**/*.map');
+    assert.ok(globs.match('a/b.js'));
+    assert.ok(!globs.match('a/b.js.map'));
+  });
+
+  it('neither matches nor descends into ignored paths', () => {
+    const globs = new GlobSet('**', '**/node_modules');
+    assert.ok(!globs.match('src/node_modules'));
+    assert.ok(!globs.descends('src/node_modules'));
+    assert.ok(globs.descends('src'));
+  });
+});
+
+describe('DeFileManager.glob', () => {
+
+  async function tree() {
+    const { fm, backend } = await setup({}, { preflight: false });
+    await populate(fm, [
+      'assets/', 'assets/img/', 'src/', 'src/node_modules/',
+      'assets/a.png', 'assets/img/b.png', 'assets/img/b.png.map', 'src/x.js', 'src/node_modules/y.js'
+    ]);
+    const listed: string[] = [];
+    const listDirectory = backend.listDirectory.bind(backend);
+    backend.listDirectory = async (storagePath) => {
+      listed.push(storagePath.split('/').slice(1).join('/'));
+      return listDirectory(storagePath);
+    };
+    fm.invalidateCache();
+    return { fm, listed };
+  }
+
+  async function paths(entries: AsyncGenerator<{ path: string }>) {
+    const paths: string[] = [];
+    for await (const entry of entries) paths.push(entry.path);
+    return paths.sort();
+  }
+
+  it('lists only directories that may contain matches', async () => {
+    const { fm, listed } = await tree();
+    assert.deepEqual(await paths(fm.glob('assets/**/*.png')), ['assets/a.png', 'assets/img/b.png']);
+    assert.deepEqual(listed.sort(), ['', 'assets', 'assets/img']);
+  });
+
+  it('filters by kind and skips ignored directories', async () => {
+    const { fm, listed } = await tree();
+    assert.deepEqual(
+      await paths(fm.glob('!**/*.map', { ignore: '**/node_modules', kind: KIND.FILE })),
+      ['assets/a.png', 'assets/img/b.png', 'src/x.js']
+    );
+    assert.ok(!listed.includes('src/node_modules'));
+  });
+
+  it('matches relative to a working directory', async () => {
+    const { fm } = await tree();
+    const cwd = await fm.resolvePath('assets') as DeDirectory;
+    assert.deepEqual(await paths(fm.glob('**/*.png', { cwd })), ['assets/a.png', 'assets/img/b.png']);
+  });
+});
@@ -0,0 +1,72 @@
+import type { DeFileManagerOptions, FileLike, RelativePath, StorageBackend } from '../types';
+
+import { DeFileManager, DeDirectory, DeFile } from '../defilemanager';
+import { MemoryBackend, MemoryBackendOptions } from '../backends/memory';
+import { ROLE } from '../constants';
+import { DePath } from '../path';
+
+export const ADMIN = '0x' + '1'.repeat(40);
+export const USER = '0x' + 'a'.repeat(40);
+
+/**
+ * Memory backend with space reserved for USER, and a file manager of USER over it
+ * @param backendOptions
+ * @param options of the file manager
+ * @param space reserved, in bytes
+ */
+export async function setup(
+  backendOptions: MemoryBackendOptions = {},
+  options: DeFileManagerOptions = {},
+  space: number = 2 ** 16
+) {
+  const backend = new MemoryBackend({ ...backendOptions, admins: [ADMIN] });
+  const admin = { address: ADMIN };
+  await backend.grantRole(admin, ROLE.ALLOCATOR, ADMIN);
+  await backend.reserveSpace(admin, USER, space);
+  const fm = new DeFileManager({}, USER, USER, undefined, { backend, ...options });
+  return { backend, fm, root: fm.rootDirectory() };
+}
+
+export function fileLike(name: string, content: string | Buffer): FileLike {
+  const buffer = Buffer.from(content);
+  return { name, size: buffer.length, buffer: () => buffer };
+}
+
+/**
+ * Create directories, given with a trailing slash, and files with their path as contents, in order
+ * @param fm
+ * @param paths relative to the address home
+ */
+export async function populate(fm: DeFileManager, paths: RelativePath[]) {
+  for (const path of paths) {
+    const { parent, basename } = DePath.parse(path);
+    const directory = await fm.resolvePath(parent) as DeDirectory;
+    path.endsWith('/')
+      ? await fm.createDirectory(directory, basename)
+      : await fm.uploadFile(directory, fileLike(basename, path));
+  }
+}
+
+export async function contents(file: DeFile): Promise<string> {
+  return Buffer.from(await file.arrayBuffer()).toString();
+}
+
+/**
+ * Fail a backend method once, on its nth call
+ * @param backend
+ * @param method
+ * @param call 1 for the first
+ * @param error thrown
+ * @returns calls of the method so far
+ */
+export function failOnce(backend: MemoryBackend, method: keyof StorageBackend, call: number, error: Error) {
+  const original = backend[method] as (...args: unknown[]) => Promise<unknown>;
+  const calls = { count: 0 };
+  Object.assign(backend, {
+    [method]: async (...args: unknown[]) => {
+      if (++calls.count === call) throw error;
+      return original.apply(backend, args);
+    }
+  });
+  return calls;
+}
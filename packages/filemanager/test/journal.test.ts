@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { JournalEntry, UploadSession } from '../types';
+
+import { DeFileManager, DeDirectory, DeFile } from '../defilemanager';
+import { MemoryStorage } from '../storage';
+import { KIND, OPERATION, STATUS } from '../constants';
+import { isOperationFailure } from '../errors';
+import { setup, fileLike, contents, failOnce, USER } from './helpers';
+
+describe('journal', () => {
+
+  it('replays an upload left by a crash from its landed chunks', async () => {
+    const journal = new MemoryStorage<JournalEntry>();
+    const uploadSessions = new MemoryStorage<UploadSession>();
+    const { fm, root, backend } = await setup({ maxChunkSize: 4 }, { journal, uploadSessions });
+    const calls = failOnce(backend, 'uploadChunk', 3, Error('boom'));
+
+    // entries of a crashed instance are not removed
+    const remove = journal.delete;
+    journal.delete = async () => undefined;
+    await assert.rejects(fm.uploadFile(root, fileLike('a.txt', 'hello world!'), { resumable: true }));
+    journal.delete = remove;
+
+    const reloaded = new DeFileManager({}, USER, USER, undefined, { backend, journal, uploadSessions });
+    const [pending] = await reloaded.pendingOperations();
+    assert.deepEqual([pending.type, pending.params], [OPERATION.UPLOAD_FILE, { path: 'a.txt', size: 12 }]);
+
+    // kept without contents
+    assert.deepEqual(await reloaded.replay(), []);
+    assert.equal((await reloaded.pendingOperations()).length, 1);
+
+    const events = await reloaded.replay(async (path) => fileLike(path, 'hello world!'));
+    assert.deepEqual(events.map(event => event.status), [STATUS.SUCCESS]);
+    assert.equal(calls.count, 4);
+    assert.equal(await contents(await reloaded.resolvePath('a.txt') as DeFile), 'hello world!');
+    assert.deepEqual(await reloaded.pendingOperations(), []);
+  });
+
+  it('only removes the source of a move copied in full', async () => {
+    const journal = new MemoryStorage<JournalEntry>();
+    const { fm, root } = await setup({}, { journal });
+    await fm.createDirectory(root, 'www');
+    await fm.copy(await fm.resolvePath('www') as DeDirectory, root, 'site');
+    await journal.set('move', {
+      id: 'move',
+      type: OPERATION.MOVE,
+      signer: USER,
+      params: { path: 'www', destination: 'site', copied: true },
+      createdAt: Date.now()
+    });
+
+    const events = await fm.replay();
+    assert.deepEqual(events.map(event => [event.type, event.status]), [[OPERATION.DELETE_DIRECTORY, STATUS.SUCCESS]]);
+    assert.equal(await fm.resolvePath('www'), undefined);
+    assert.equal((await fm.resolvePath('site'))?.kind, KIND.DIRECTORY);
+  });
+
+  it('fails operations the journal cannot record, and cancels queued ones without unhandled rejections', async () => {
+    const journal = new MemoryStorage<JournalEntry>();
+    journal.set = async () => { throw Error('QuotaExceededError') };
+    const { fm, root } = await setup({}, { journal });
+    const controller = new AbortController();
+
+    const first = fm.createDirectory(root, 'www');
+    const second = fm.createDirectory(root, 'docs', { signal: controller.signal });
+    controller.abort();
+
+    await assert.rejects(second, (err: unknown) => isOperationFailure(err) && err.status === STATUS.CANCELLED);
+    await assert.rejects(first, (err: unknown) => isOperationFailure(err) && err.status === STATUS.ERROR);
+    assert.equal(await fm.resolvePath('www'), undefined);
+  });
+});
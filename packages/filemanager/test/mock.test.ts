@@ -0,0 +1,50 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+
+import Web3 from 'web3';
+
+import type { DeDirectory, DeFile } from '../defilemanager';
+
+import { DeFileManager } from '../defilemanager';
+import { MockFileStorageNode } from '../mock/node';
+import { AlreadyExistsError, isOperationFailure } from '../errors';
+import { fileLike, contents } from './helpers';
+
+const PRIVATE_KEY = '0x' + '1'.repeat(64);
+
+describe('DeFileManager over filestorage.js and the mock node', () => {
+
+  const web3 = new Web3();
+  const { address } = web3.eth.accounts.privateKeyToAccount(PRIVATE_KEY);
+  const node = new MockFileStorageNode({ maxChunkSize: 4, reservations: { [address]: 2 ** 10 } });
+
+  before(async () => {
+    web3.setProvider(new Web3.providers.HttpProvider(await node.listen(0)));
+  });
+
+  after(() => node.close());
+
+  it('creates directories in the home directory, listed with a trailing slash', async () => {
+    const fm = new DeFileManager(web3, address, address, PRIVATE_KEY);
+    const { result } = await fm.createDirectory(fm.rootDirectory(), 'www');
+    await fm.createDirectory(result.directory, 'assets');
+    assert.equal((await fm.resolvePath('www/assets'))?.kind, 'directory');
+  });
+
+  it('uploads files in chunks and reads them back', async () => {
+    const fm = new DeFileManager(web3, address, address, PRIVATE_KEY);
+    const www = await fm.resolvePath('www') as DeDirectory;
+    await fm.uploadFile(www, fileLike('index.html', '<html></html>'));
+    const file = await fm.resolvePath('www/index.html') as DeFile;
+    assert.equal(file.size, 13);
+    assert.equal(await contents(file), '<html></html>');
+    assert.equal((await fm.readRange(file, 2, 6)).toString(), 'tml>');
+  });
+
+  it('fails with the reason the contract reverts with', async () => {
+    const fm = new DeFileManager(web3, address, address, PRIVATE_KEY, { preflight: false, retry: { attempts: 1 } });
+    await assert.rejects(fm.createDirectory(fm.rootDirectory(), 'www'), (err: unknown) =>
+      isOperationFailure(err) && err.result.error instanceof AlreadyExistsError
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DeFile } from '../defilemanager';
+import type { MemoryBackend } from '../backends/memory';
+
+import { OPERATION, STATUS } from '../constants';
+import { setup, fileLike, contents, failOnce } from './helpers';
+
+/**
+ * Record positions of chunks sent and the most in flight at once, each taking a few ms
+ * @param backend
+ */
+function trackChunks(backend: MemoryBackend) {
+  const uploadChunk = backend.uploadChunk.bind(backend);
+  const sent = { positions: [] as number[], inFlight: 0, maxInFlight: 0 };
+  backend.uploadChunk = async (signer, path, position, data) => {
+    sent.positions.push(position);
+    sent.maxInFlight = Math.max(sent.maxInFlight, ++sent.inFlight);
+    try {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return await uploadChunk(signer, path, position, data);
+    } finally {
+      sent.inFlight--;
+    }
+  };
+  return sent;
+}
+
+describe('multi-transaction mode', () => {
+
+  it('sends chunks in packets of the limit', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 2 }, { mtm: 3 });
+    const sent = trackChunks(backend);
+    await fm.uploadFile(root, fileLike('a.txt', 'hello world!'));
+    assert.deepEqual(sent.positions, [0, 2, 4, 6, 8, 10]);
+    assert.equal(sent.maxInFlight, 3);
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'hello world!');
+  });
+
+  it('sends a failed member of a packet again, within the operation', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 2 }, { mtm: 3 });
+    const sent = trackChunks(backend);
+    // second member of the first packet
+    failOnce(backend, 'uploadChunk', 2, Error('nonce too low'));
+    const retrying: number[] = [];
+    fm.on(OPERATION.UPLOAD_FILE, STATUS.RETRYING, (event) => retrying.push(event.result.attempt));
+
+    await fm.uploadFile(root, fileLike('a.txt', 'hello world!'));
+    assert.deepEqual(sent.positions, [0, 4, 2, 6, 8, 10]);
+    assert.deepEqual(retrying, []);
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'hello world!');
+  });
+
+  it('takes a failed member that landed anyway as sent', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 2 }, { mtm: 3 });
+    const uploadChunk = backend.uploadChunk.bind(backend);
+    const positions: number[] = [];
+    backend.uploadChunk = async (signer, path, position, data) => {
+      positions.push(position);
+      const receipt = await uploadChunk(signer, path, position, data);
+      // receipt lost of the first send
+      if (position === 2 && positions.filter(sent => sent === 2).length === 1) throw Error('socket hang up');
+      return receipt;
+    };
+
+    await fm.uploadFile(root, fileLike('a.txt', 'hello world!'));
+    assert.deepEqual(positions, [0, 2, 4, 6, 8, 10]);
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'hello world!');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { DePath } from '../path';
+import { InvalidPathError } from '../errors';
+import { setup } from './helpers';
+
+const ADDRESS = '0x' + 'AB'.repeat(20);
+
+describe('DePath', () => {
+
+  it('normalizes parsed paths', () => {
+    assert.equal(DePath.parse('/photos//2021/../2022/').toString(), 'photos/2022');
+    assert.equal(DePath.parse('./a/.').toString(), 'a');
+    assert.ok(DePath.parse('').isRoot);
+  });
+
+  it('rejects paths above the home and invalid names', () => {
+    assert.throws(() => DePath.parse('a/../..'), InvalidPathError);
+    assert.throws(() => DePath.parse('a/b\u0000c'), InvalidPathError);
+    assert.throws(() => DePath.parse('x'.repeat(256)), InvalidPathError);
+  });
+
+  it('validates names', () => {
+    assert.ok(DePath.isValidName('logo.png'));
+    for (const name of ['', '.', '..', 'a/b', 'tab\t', 'x'.repeat(256)]) {
+      assert.equal(DePath.isValidName(name), false, name);
+    }
+  });
+
+  it('derives paths', () => {
+    const path = DePath.parse('www/assets/logo.png');
+    assert.equal(path.parent.toString(), 'www/assets');
+    assert.equal(path.basename, 'logo.png');
+    assert.equal(path.extname, '.png');
+    assert.equal(DePath.parse('.env').extname, '');
+    assert.equal(path.depth, 3);
+    assert.equal(DePath.parse('a/b').join('../c', 'd').toString(), 'a/c/d');
+    assert.equal(path.relativeTo('www/html'), '../assets/logo.png');
+    assert.ok(path.isWithin('www'));
+    assert.ok(!DePath.parse('www2').isWithin('www'));
+    assert.ok(path.equals('www/assets/logo.png'));
+  });
+
+  it('takes child names as is, once valid', () => {
+    assert.equal(DePath.parse('www').child('a..b').toString(), 'www/a..b');
+    for (const name of ['', '..', 'a/b', 'x'.repeat(256)]) {
+      assert.throws(() => DePath.ROOT.child(name), InvalidPathError, name);
+    }
+  });
+
+  it('converts from and to storage paths', () => {
+    const storagePath = DePath.parse('www/index.html').toStoragePath(ADDRESS);
+    assert.equal(storagePath, 'ab'.repeat(20) + '/www/index.html');
+    assert.equal(DePath.fromStoragePath(storagePath).toString(), 'www/index.html');
+    assert.equal(DePath.ROOT.toStoragePath(ADDRESS), 'ab'.repeat(20));
+  });
+});
+
+describe('names of new entries', () => {
+
+  it('are validated before any transaction', async () => {
+    const { fm, root, backend } = await setup({}, { preflight: false });
+    await assert.rejects(fm.createDirectory(root, 'a/b'), InvalidPathError);
+    await assert.rejects(fm.createDirectory(root, '..'), InvalidPathError);
+    assert.deepEqual(await backend.listDirectory(fm.absolutePath(root)), []);
+  });
+});
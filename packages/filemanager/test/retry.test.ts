@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { retryPolicy, backoff, wait } from '../retry';
+import { ERROR_CODE, OPERATION, RETRY, STATUS } from '../constants';
+import { CancelledError, ContractRevertError, isOperationFailure, isRetryable, NotAuthorizedError } from '../errors';
+import { setup, fileLike, failOnce } from './helpers';
+
+describe('retry policy', () => {
+
+  it('fills defaults and keeps at least one attempt', () => {
+    const policy = retryPolicy({ attempts: 0, delay: 10 });
+    assert.equal(policy.attempts, 1);
+    assert.equal(policy.delay, 10);
+    assert.equal(policy.factor, RETRY.FACTOR);
+    assert.equal(policy.retryable, isRetryable);
+  });
+
+  it('backs off exponentially up to the max delay', () => {
+    const policy = retryPolicy({ delay: 100, factor: 3, maxDelay: 1000 });
+    assert.deepEqual([1, 2, 3, 4].map(attempt => backoff(policy, attempt)), [100, 300, 900, 1000]);
+  });
+
+  it('retries transient failures only', () => {
+    assert.ok(isRetryable(Error('read ECONNRESET')));
+    assert.ok(isRetryable(Error('Transaction was not mined within 750 seconds')));
+    assert.ok(isRetryable(Error('nonce too low')));
+    assert.ok(!isRetryable(new ContractRevertError({ reason: 'File or directory exists' })));
+    assert.ok(!isRetryable(new NotAuthorizedError()));
+    assert.ok(!isRetryable(new CancelledError()));
+  });
+
+  it('waits until cancelled', async () => {
+    await wait(1);
+    const controller = new AbortController();
+    const waiting = wait(60000, controller.signal);
+    controller.abort();
+    await assert.rejects(waiting, CancelledError);
+    await assert.rejects(wait(1, controller.signal), CancelledError);
+  });
+});
+
+describe('retries of DeFileManager', () => {
+
+  it('attempt an operation again after a transient failure', async () => {
+    const { fm, root, backend } = await setup({}, { retry: { delay: 1 } });
+    failOnce(backend, 'createDirectory', 1, Error('nonce too low'));
+    const retrying: Array<number | undefined> = [];
+    fm.on(OPERATION.CREATE_DIRECTORY, STATUS.RETRYING, (event) => retrying.push(event.result.attempt));
+    await fm.createDirectory(root, 'www');
+    assert.deepEqual(retrying, [1]);
+  });
+
+  it('give up after the last attempt', async () => {
+    const { fm, root, backend } = await setup({}, { retry: { attempts: 2, delay: 1 } });
+    // the first call of each, one wrapping the other
+    failOnce(backend, 'startUpload', 1, Error('timeout'));
+    failOnce(backend, 'startUpload', 1, Error('timeout'));
+    await assert.rejects(fm.uploadFile(root, fileLike('a.txt', 'a')), (err: unknown) =>
+      isOperationFailure(err, OPERATION.UPLOAD_FILE) && err.result.error.code === ERROR_CODE.TIMEOUT
+    );
+  });
+});
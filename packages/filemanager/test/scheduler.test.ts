@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { OperationEvent } from '../types';
+
+import { Scheduler } from '../scheduler';
+import { NonceManager } from '../nonces';
+import { OPERATION, PRIORITY, STATUS } from '../constants';
+import { AlreadyExistsError, isOperationFailure } from '../errors';
+import { setup, fileLike } from './helpers';
+
+/**
+ * Tasks completed by hand, recording the order they start in
+ */
+function tasks(scheduler: Scheduler) {
+  const started: string[] = [];
+  const running = new Map<string, () => void>();
+  const schedule = (id: string, paths: string[], priority: number = PRIORITY.NORMAL) => scheduler.schedule({
+    id,
+    key: OPERATION.CREATE_DIRECTORY,
+    priority,
+    paths,
+    run: () => new Promise<OperationEvent>((resolve) => {
+      started.push(id);
+      running.set(id, () => resolve({ id, type: OPERATION.CREATE_DIRECTORY, status: STATUS.SUCCESS } as OperationEvent));
+    })
+  });
+  const complete = async (id: string) => {
+    (running.get(id) as () => void)();
+    // completion is handled on the next microtask
+    await Promise.resolve();
+  };
+  return { started, schedule, complete };
+}
+
+describe('Scheduler', () => {
+
+  it('runs as many operations at once as its concurrency', async () => {
+    const scheduler = new Scheduler(2);
+    const { started, schedule, complete } = tasks(scheduler);
+    schedule('a', ['a']);
+    schedule('b', ['b']);
+    schedule('c', ['c']);
+    assert.deepEqual(started, ['a', 'b']);
+    assert.deepEqual([scheduler.active, scheduler.pending], [2, 1]);
+    await complete('b');
+    assert.deepEqual(started, ['a', 'b', 'c']);
+  });
+
+  it('starts ready operations by priority lane, then in order', async () => {
+    const scheduler = new Scheduler(1);
+    const { started, schedule, complete } = tasks(scheduler);
+    schedule('first', ['first']);
+    schedule('low', ['low'], PRIORITY.LOW);
+    schedule('normal', ['normal']);
+    schedule('high', ['high'], PRIORITY.HIGH);
+    schedule('high2', ['high2'], PRIORITY.HIGH);
+    for (const id of ['first', 'high', 'high2', 'normal']) await complete(id);
+    assert.deepEqual(started, ['first', 'high', 'high2', 'normal', 'low']);
+  });
+
+  it('orders operations on the same path, its ancestors or descendants', async () => {
+    const scheduler = new Scheduler(4);
+    const { started, schedule, complete } = tasks(scheduler);
+    schedule('dir', ['www']);
+    schedule('upload', ['www/index.html'], PRIORITY.HIGH);
+    schedule('other', ['www2']);
+    assert.deepEqual(started, ['dir', 'other']);
+    await complete('dir');
+    assert.deepEqual(started, ['dir', 'other', 'upload']);
+  });
+
+  it('holds back pending operations while paused, and removes them', async () => {
+    const scheduler = new Scheduler(1);
+    const { started, schedule, complete } = tasks(scheduler);
+    schedule('a', ['a']);
+    scheduler.pause();
+    schedule('b', ['b']);
+    schedule('c', ['c']);
+    await complete('a');
+    assert.deepEqual(started, ['a']);
+    assert.equal(scheduler.remove('b')?.id, 'b');
+    assert.equal(scheduler.remove('b'), undefined);
+    scheduler.resume();
+    assert.deepEqual(started, ['a', 'c']);
+  });
+
+  it('emits completed operations in order of completion', async () => {
+    const scheduler = new Scheduler(2);
+    const { schedule, complete } = tasks(scheduler);
+    const completed: string[] = [];
+    scheduler.completed.subscribe(event => completed.push(event.id));
+    schedule('a', ['a']);
+    schedule('b', ['b']);
+    await complete('b');
+    await complete('a');
+    assert.deepEqual(completed, ['b', 'a']);
+  });
+});
+
+describe('NonceManager', () => {
+
+  it('assigns consecutive nonces per address, fetched once', async () => {
+    const nonces = new NonceManager();
+    let fetched = 0;
+    const fetch = async () => (fetched++, 7);
+    const assigned = await Promise.all([
+      nonces.next('0xAB', fetch), nonces.next('0xab', fetch), nonces.next('0xcd', fetch)
+    ]);
+    assert.deepEqual(assigned, [7, 8, 7]);
+    assert.equal(fetched, 2);
+    nonces.reset('0xAB');
+    assert.equal(await nonces.next('0xab', async () => 3), 3);
+  });
+
+  it('fetches again after a failed fetch', async () => {
+    const nonces = new NonceManager();
+    await assert.rejects(nonces.next('0xab', async () => { throw Error('offline') }));
+    assert.equal(await nonces.next('0xab', async () => 5), 5);
+  });
+});
+
+describe('operations of DeFileManager', () => {
+
+  it('run after earlier ones on the same path', async () => {
+    const { fm, root } = await setup({}, { concurrency: 4 });
+    const events: string[] = [];
+    const statuses: string[] = [STATUS.STARTED, STATUS.SUCCESS, STATUS.ERROR];
+    fm.bus.subscribe(({ type, status }) => statuses.includes(status) && events.push(`${type}:${status}`));
+    const created = fm.createDirectory(root, 'a');
+    await assert.rejects(fm.uploadFile(root, fileLike('a', 'a')), (err: unknown) =>
+      isOperationFailure(err) && err.result.error instanceof AlreadyExistsError
+    );
+    await created;
+    assert.deepEqual(events, ['CREATE_DIRECTORY:started', 'CREATE_DIRECTORY:success', 'UPLOAD_FILE:started', 'UPLOAD_FILE:error']);
+  });
+});
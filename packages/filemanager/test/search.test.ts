@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DeDirectory } from '../defilemanager';
+import type { SearchQuery, SearchResult } from '../types';
+
+import { KIND, SEARCH_MODE } from '../constants';
+import { InvalidQueryError } from '../errors';
+import { SearchMatcher } from '../search';
+import { setup, populate } from './helpers';
+
+async function tree() {
+  const { fm } = await setup({}, { preflight: false });
+  await populate(fm, [
+    'assets/', 'assets/icons/', 'docs/',
+    'logo.png', 'assets/logo-dark.png', 'assets/icons/logo.svg', 'assets/photo.jpg', 'docs/catalog.md', 'docs/logos.txt'
+  ]);
+  return fm;
+}
+
+const paths = (results: SearchResult[]) => results.map(({ entry }) => entry.path);
+
+describe('SearchMatcher', () => {
+
+  it('rejects unknown modes and invalid patterns', () => {
+    assert.throws(() => new SearchMatcher({ mode: 'other' }), InvalidQueryError);
+    assert.throws(() => new SearchMatcher({ name: '[', mode: SEARCH_MODE.REGEX }), InvalidQueryError);
+  });
+});
+
+describe('DeFileManager.search', () => {
+
+  it('ranks matches across the tree, closer and shallower first', async () => {
+    const fm = await tree();
+    const search = (query: SearchQuery) => fm.search(query).then(paths);
+    assert.deepEqual(await search({ name: 'logo', mode: SEARCH_MODE.EXACT }), []);
+    assert.deepEqual(await search({ name: 'LOGO.PNG', mode: SEARCH_MODE.EXACT }), ['logo.png']);
+    assert.deepEqual(await search({ name: 'logo', mode: SEARCH_MODE.PREFIX }), [
+      'logo.png', 'assets/icons/logo.svg', 'docs/logos.txt', 'assets/logo-dark.png'
+    ]);
+    assert.deepEqual(await search({ name: /\.png$/ }), ['logo.png', 'assets/logo-dark.png']);
+    assert.ok((await search({ name: 'lgo' })).includes('logo.png'));
+  });
+
+  it('filters by kind, type, extension, size, path and depth', async () => {
+    const fm = await tree();
+    const search = (query: SearchQuery) => fm.search(query).then(results => paths(results).sort());
+    assert.deepEqual(await search({ kind: KIND.DIRECTORY }), ['assets', 'assets/icons', 'docs']);
+    assert.deepEqual(await search({ type: 'image/*', depth: { max: 2 } }), ['assets/logo-dark.png', 'assets/photo.jpg', 'logo.png']);
+    assert.deepEqual(await search({ extension: ['md', '.txt'] }), ['docs/catalog.md', 'docs/logos.txt']);
+    assert.deepEqual(await search({ path: 'assets/i' }), ['assets/icons', 'assets/icons/logo.svg']);
+    assert.deepEqual(await search({ size: { min: 'assets/logo-dark.png'.length } }), ['assets/icons/logo.svg', 'assets/logo-dark.png']);
+    assert.deepEqual(await search({ directory: await fm.resolvePath('docs') as DeDirectory, name: 'logo', mode: SEARCH_MODE.PREFIX }), ['docs/logos.txt']);
+  });
+
+  it('streams results and cuts them to the limit', async () => {
+    const fm = await tree();
+    const streamed: string[] = [];
+    for await (const { entry } of fm.searchStream({ kind: KIND.FILE, limit: 2 })) streamed.push(entry.path);
+    assert.equal(streamed.length, 2);
+    assert.equal((await fm.search({ kind: KIND.FILE, limit: 3 })).length, 3);
+  });
+
+  it('keeps the former search within a directory by name, returning entries', async () => {
+    const fm = await tree();
+    const docs = await fm.resolvePath('docs') as DeDirectory;
+    assert.deepEqual((await fm.search(docs, ' logos ')).map(entry => entry.path), ['docs/logos.txt']);
+    assert.deepEqual(await fm.search(docs, ''), []);
+  });
+});
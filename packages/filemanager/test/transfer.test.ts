@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DeFile } from '../defilemanager';
+
+import { OPERATION, STATUS } from '../constants';
+import { VerificationError, isOperationFailure } from '../errors';
+import { setup, fileLike, contents, failOnce } from './helpers';
+
+async function tree() {
+  const { fm, root, backend } = await setup({ maxChunkSize: 4 }, { reconnectInterval: 10, retry: { delay: 10 } });
+  const { result } = await fm.createDirectory(root, 'www');
+  await fm.createDirectory(result.directory, 'assets');
+  await fm.uploadFile(result.directory, fileLike('index.html', '<html></html>'));
+  await fm.uploadFile(result.directory, fileLike('style.css', 'body {}'));
+  return { fm, root, backend, www: result.directory };
+}
+
+describe('transfers interrupted', () => {
+
+  it('resume a copy after going offline, taking over copied entries', async () => {
+    const { fm, root, backend, www } = await tree();
+    // first chunk of the second copied file
+    failOnce(backend, 'uploadChunk', 5, Error('read ECONNRESET'));
+    const retrying: number[] = [];
+    fm.on(OPERATION.COPY, STATUS.RETRYING, (event) => retrying.push(event.result.attempt));
+
+    const { result } = await fm.copy(www, root, 'backup');
+    assert.deepEqual(retrying, []);
+    assert.deepEqual(result.entries.map(entry => [entry.storagePath.split('/').slice(1).join('/'), entry.status]), [
+      ['backup', STATUS.SUCCESS],
+      ['backup/assets', STATUS.SUCCESS],
+      ['backup/index.html', STATUS.SUCCESS],
+      ['backup/style.css', STATUS.SUCCESS],
+    ]);
+    assert.equal(await contents(await fm.resolvePath('backup/index.html') as DeFile), '<html></html>');
+    assert.equal(await contents(await fm.resolvePath('backup/style.css') as DeFile), 'body {}');
+  });
+
+  it('retry a move failed by a transient error', async () => {
+    const { fm, root, backend, www } = await tree();
+    failOnce(backend, 'finishUpload', 1, Error('Transaction was not mined within 750 seconds'));
+    const retrying: number[] = [];
+    fm.on(OPERATION.MOVE, STATUS.RETRYING, (event) => retrying.push(event.result.attempt));
+
+    const { result } = await fm.move(www, root, 'site');
+    assert.deepEqual(retrying, [1]);
+    assert.ok(result.entries.every(entry => entry.status === STATUS.SUCCESS));
+    assert.equal(await fm.resolvePath('www'), undefined);
+    assert.equal(await contents(await fm.resolvePath('site/style.css') as DeFile), 'body {}');
+  });
+
+  it('keep the source of a move whose copy does not match it', async () => {
+    const { fm, root, backend, www } = await tree();
+    // chunks of the copy land corrupted
+    const uploadChunk = backend.uploadChunk.bind(backend);
+    backend.uploadChunk = (signer, path, position, data) =>
+      uploadChunk(signer, path, position, path.startsWith('site/') ? Buffer.alloc(data.length) : data);
+
+    await assert.rejects(fm.move(www, root, 'site'), (err: unknown) =>
+      isOperationFailure(err, OPERATION.MOVE) && err.result.error instanceof VerificationError
+    );
+    assert.equal(await contents(await fm.resolvePath('www/index.html') as DeFile), '<html></html>');
+  });
+});
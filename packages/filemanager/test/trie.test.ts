@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DeDirectory, FileOrDir } from '../defilemanager';
+
+import { PathTrie } from '../trie';
+import { setup, populate } from './helpers';
+
+function trie(paths: string[]) {
+  const trie = new PathTrie<string>();
+  for (const path of paths) trie.set(path, path);
+  return trie;
+}
+
+describe('PathTrie', () => {
+
+  it('gets values by path, the root at ""', () => {
+    const index = trie(['', 'a', 'a/b/c']);
+    assert.equal(index.get(''), '');
+    assert.equal(index.get('/a/'), 'a');
+    assert.equal(index.get('a/b/c'), 'a/b/c');
+    assert.equal(index.get('a/b'), undefined);
+    assert.ok(!index.has('a/b'));
+    assert.equal(index.size, 3);
+  });
+
+  it('counts a path once when set again', () => {
+    const index = trie(['a', 'a']);
+    index.set('a', 'again');
+    assert.equal(index.get('a'), 'again');
+    assert.equal(index.size, 1);
+  });
+
+  it('deletes a path with its descendants', () => {
+    const index = trie(['a', 'a/b', 'a/b/c', 'ab']);
+    index.delete('a/b');
+    assert.deepEqual(index.subtree(''), ['a', 'ab']);
+    assert.equal(index.size, 2);
+    index.delete('missing/path');
+    assert.equal(index.size, 2);
+    index.delete('');
+    assert.equal(index.size, 0);
+  });
+
+  it('lists children with or without values', () => {
+    const index = trie(['a/b/c', 'a/d']);
+    assert.deepEqual(index.children('a').sort(), ['b', 'd']);
+    assert.deepEqual(index.children('x'), []);
+  });
+
+  it('enumerates subtrees, parents first', () => {
+    const index = trie(['a', 'a/b', 'a/b/c', 'ab', 'b']);
+    assert.deepEqual(index.subtree('a'), ['a', 'a/b', 'a/b/c']);
+    assert.deepEqual(index.subtree('x'), []);
+  });
+
+  it('enumerates paths by prefix', () => {
+    const index = trie(['photos', 'photos/2021', 'photos/2022', 'photos/2022/a.png', 'photos/old']);
+    assert.deepEqual(index.withPrefix('photos/20'), ['photos/2021', 'photos/2022', 'photos/2022/a.png']);
+    assert.deepEqual(index.withPrefix('photos/'), ['photos/2021', 'photos/2022', 'photos/2022/a.png', 'photos/old']);
+    assert.deepEqual(index.withPrefix('videos/'), []);
+  });
+});
+
+describe('path index of DeFileManager', () => {
+
+  const paths = (entries: FileOrDir[]) => entries.map(entry => entry.path).sort();
+
+  it('follows completed operations', async () => {
+    const { fm } = await setup({}, { preflight: false });
+    await populate(fm, ['photos/', 'photos/2021/', 'photos/2021/a.png', 'photos/2022/']);
+    assert.deepEqual(paths(fm.indexedByPrefix('photos/20')), ['photos/2021', 'photos/2021/a.png', 'photos/2022']);
+
+    await fm.rename(await fm.resolvePath('photos/2021') as DeDirectory, 'old');
+    assert.deepEqual(paths(fm.indexedEntries(await fm.resolvePath('photos') as DeDirectory)), ['photos/2022', 'photos/old']);
+    await fm.deleteDirectory(await fm.resolvePath('photos') as DeDirectory);
+    assert.deepEqual(fm.indexedEntries(), []);
+  });
+});
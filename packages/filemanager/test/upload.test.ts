@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DeFile } from '../defilemanager';
+
+import { FILE_STATUS, OPERATION } from '../constants';
+import { AlreadyExistsError, isOperationFailure } from '../errors';
+import { setup, fileLike, contents, failOnce } from './helpers';
+
+describe('resumable uploads', () => {
+
+  it('continue from chunks landed before a failure', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 4 });
+    const calls = failOnce(backend, 'uploadChunk', 3, Error('boom'));
+    await assert.rejects(fm.uploadFile(root, fileLike('a.txt', 'hello world!'), { resumable: true }));
+    assert.equal(await backend.getFileStatus(fm.absolutePath(root) + '/a.txt'), FILE_STATUS.CREATED);
+    assert.equal((await fm.pendingUploads()).length, 1);
+
+    await fm.uploadFile(root, fileLike('a.txt', 'hello world!'), { resumable: true });
+    // the third chunk only, sent again
+    assert.equal(calls.count, 4);
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'hello world!');
+    assert.deepEqual(await fm.pendingUploads(), []);
+  });
+
+  it('start over for other contents of the same size', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 4 });
+    failOnce(backend, 'uploadChunk', 3, Error('boom'));
+    await assert.rejects(fm.uploadFile(root, fileLike('a.txt', 'hello world!'), { resumable: true }));
+
+    await fm.uploadFile(root, fileLike('a.txt', 'HELLO WORLD?'), { resumable: true });
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'HELLO WORLD?');
+  });
+
+  it('do not overwrite an uploaded file of the same size', async () => {
+    const { fm, root } = await setup({ maxChunkSize: 4 });
+    await fm.uploadFile(root, fileLike('a.txt', 'version-1'));
+
+    await assert.rejects(
+      fm.uploadFile(root, fileLike('a.txt', 'version-2'), { resumable: true }),
+      (err: unknown) => isOperationFailure(err, OPERATION.UPLOAD_FILE) && err.result.error instanceof AlreadyExistsError
+    );
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'version-1');
+  });
+});
+
+describe('uploads interrupted offline', () => {
+
+  it('continue once back online', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 4 }, { reconnectInterval: 10 });
+    const online: boolean[] = [];
+    fm.online.subscribe(value => online.push(value));
+    failOnce(backend, 'uploadChunk', 3, Error('read ECONNRESET'));
+    await fm.uploadFile(root, fileLike('a.txt', 'hello world!'));
+    assert.deepEqual(online, [true, false, true]);
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'hello world!');
+  });
+
+  it('continue resumable uploads from landed chunks', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 4 }, { reconnectInterval: 10 });
+    const calls = failOnce(backend, 'uploadChunk', 3, Error('read ECONNRESET'));
+    await fm.uploadFile(root, fileLike('a.txt', 'hello world!'), { resumable: true });
+    assert.equal(calls.count, 4);
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'hello world!');
+  });
+
+  it('succeed when finished before the connection dropped', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 4 }, { reconnectInterval: 10 });
+    const finishUpload = backend.finishUpload.bind(backend);
+    let dropped = false;
+    backend.finishUpload = async (signer, path) => {
+      const receipt = await finishUpload(signer, path);
+      if (dropped) return receipt;
+      dropped = true;
+      throw Error('socket hang up');
+    };
+    await fm.uploadFile(root, fileLike('a.txt', 'hello world!'));
+    assert.equal(await contents(await fm.resolvePath('a.txt') as DeFile), 'hello world!');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import type { DirectoryChange } from '../types';
+
+import { DIRECTORY_CHANGE } from '../constants';
+import { PathNotFoundError } from '../errors';
+import { wait } from '../retry';
+import { setup, failOnce, USER } from './helpers';
+
+/**
+ * Wait until changes reach a count, listed every few ms
+ * @param changes
+ * @param count
+ */
+async function until(changes: DirectoryChange[], count: number) {
+  for (let i = 0; changes.length < count && i < 100; i++) await wait(5);
+}
+
+const summary = (changes: DirectoryChange[]) => changes.map(({ type, entry }) => `${type}:${entry.path}`);
+
+describe('watch', () => {
+
+  it('emits added, changed and removed entries of a directory against the first listing', async () => {
+    const { fm, root, backend } = await setup({ maxChunkSize: 4 });
+    // by another client
+    const signer = { address: USER };
+    await backend.createDirectory(signer, 'www');
+
+    const changes: DirectoryChange[] = [];
+    const subscription = fm.watch(root, { interval: 10 }).subscribe(change => changes.push(change));
+    try {
+      await wait(30);
+      assert.equal(changes.length, 0);
+
+      await backend.startUpload(signer, 'a.txt', 8);
+      await until(changes, 1);
+      await backend.uploadChunk(signer, 'a.txt', 0, Buffer.from('abcd'));
+      await until(changes, 2);
+      await backend.deleteDirectory(signer, 'www');
+      await until(changes, 3);
+
+      assert.deepEqual(summary(changes), [
+        `${DIRECTORY_CHANGE.ADDED}:a.txt`,
+        `${DIRECTORY_CHANGE.CHANGED}:a.txt`,
+        `${DIRECTORY_CHANGE.REMOVED}:www`,
+      ]);
+      assert.ok(changes.every(change => change.directory === root));
+      // listings update index and cache
+      assert.equal(await fm.resolvePath('www'), undefined);
+      assert.equal((await fm.resolvePath('a.txt'))?.kind, 'file');
+    } finally {
+      subscription.unsubscribe();
+    }
+  });
+
+  it('stops listing once unsubscribed', async () => {
+    const { fm, root, backend } = await setup();
+    const signer = { address: USER };
+    const changes: DirectoryChange[] = [];
+    const subscription = fm.watch(root, { interval: 10 }).subscribe(change => changes.push(change));
+
+    await wait(30);
+    await backend.createDirectory(signer, 'www');
+    await until(changes, 1);
+    subscription.unsubscribe();
+
+    const listDirectory = backend.listDirectory.bind(backend);
+    let listings = 0;
+    backend.listDirectory = (storagePath) => (listings++, listDirectory(storagePath));
+    await backend.createDirectory(signer, 'assets');
+    await wait(50);
+    assert.deepEqual(summary(changes), [`${DIRECTORY_CHANGE.ADDED}:www`]);
+    assert.equal(listings, 0);
+  });
+
+  it('skips listings failed while offline and errors on other failures', async () => {
+    const { fm, root, backend } = await setup();
+    const signer = { address: USER };
+    const { result } = await fm.createDirectory(root, 'www');
+    failOnce(backend, 'listDirectory', 2, Error('connect ECONNREFUSED 127.0.0.1:8545'));
+
+    const changes: DirectoryChange[] = [];
+    const failed = new Promise<unknown>(resolve =>
+      fm.watch(result.directory, { interval: 10 }).subscribe({ next: change => changes.push(change), error: resolve })
+    );
+    await wait(40);
+    await backend.deleteDirectory(signer, 'www');
+    assert.ok(await failed instanceof PathNotFoundError);
+    assert.equal(changes.length, 0);
+  });
+});
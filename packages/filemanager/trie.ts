@@ -0,0 +1,129 @@
+import type { RelativePath } from './types';
+
+type TrieNode<T> = {
+  value?: T;
+  children: Map<string, TrieNode<T>>; // by path segment
+}
+
+/**
+ * Values by relative path, in a tree of path segments
+ * lookups take the depth of a path, subtrees and prefixes are enumerated without scanning other paths
+ * the root value is at path ""
+ */
+export class PathTrie<T> {
+
+  private root: TrieNode<T>;
+  private count: number;
+
+  constructor() {
+    this.root = { children: new Map() };
+    this.count = 0;
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  private segments(path: RelativePath): string[] {
+    return path.split('/').filter(Boolean);
+  }
+
+  /**
+   * Node of a path, created along the way with create
+   * @param path
+   * @param create
+   */
+  private node(path: RelativePath, create: boolean = false): TrieNode<T> | undefined {
+    let node: TrieNode<T> | undefined = this.root;
+    for (const segment of this.segments(path)) {
+      let child: TrieNode<T> | undefined = node.children.get(segment);
+      if (!child) {
+        if (!create) return;
+        child = { children: new Map() };
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    return node;
+  }
+
+  get(path: RelativePath): T | undefined {
+    return this.node(path)?.value;
+  }
+
+  has(path: RelativePath): boolean {
+    return this.get(path) !== undefined;
+  }
+
+  set(path: RelativePath, value: T) {
+    const node = this.node(path, true) as TrieNode<T>;
+    node.value === undefined && this.count++;
+    node.value = value;
+  }
+
+  /**
+   * Remove the value of a path with those of its descendants
+   * @param path
+   */
+  delete(path: RelativePath) {
+    const segments = this.segments(path);
+    if (!segments.length) {
+      this.clear();
+      return;
+    }
+    const parent = this.node(segments.slice(0, -1).join('/'));
+    const name = segments[segments.length - 1];
+    const node = parent?.children.get(name);
+    if (!parent || !node) return;
+    this.count -= Array.from(this.walk(node)).length;
+    parent.children.delete(name);
+  }
+
+  clear() {
+    this.root = { children: new Map() };
+    this.count = 0;
+  }
+
+  /**
+   * Names of the children of a path, with or without values of their own
+   * @param path
+   */
+  children(path: RelativePath): string[] {
+    return Array.from(this.node(path)?.children.keys() || []);
+  }
+
+  /**
+   * Values of a path and its descendants, parents before their children
+   * @param path
+   */
+  subtree(path: RelativePath): T[] {
+    const node = this.node(path);
+    return node ? Array.from(this.walk(node)) : [];
+  }
+
+  /**
+   * Values of paths starting with a prefix, with their descendants
+   * ex: "photos/20" matches "photos/2021" and "photos/2022/a.png", and "photos/" matches contents of "photos"
+   * @param prefix
+   */
+  withPrefix(prefix: RelativePath): T[] {
+    const segments = prefix.split('/');
+    const partial = segments.pop() as string;
+    const parent = this.node(segments.join('/'));
+    if (!parent) return [];
+    let values: T[] = [];
+    parent.children.forEach((child, name) => {
+      if (name.startsWith(partial)) {
+        values = values.concat(Array.from(this.walk(child)));
+      }
+    });
+    return values;
+  }
+
+  private * walk(node: TrieNode<T>): Generator<T> {
+    if (node.value !== undefined) yield node.value;
+    for (const child of node.children.values()) {
+      yield* this.walk(child);
+    }
+  }
+}
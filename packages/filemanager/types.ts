@@ -3,24 +3,403 @@
  * we start without file handles
  */
 
+import type { FileStorageDirectory, FileStorageFile } from '@skalenetwork/filestorage.js';
+import type { DeDirectory, DeFile, FileOrDir } from './defilemanager';
+import type { DeFileManagerError } from './errors';
+import type { OPERATION, STATUS, TRANSACTION } from './constants';
+
 export type FilePath = string;
-export type DePath = string;
+export type RelativePath = string; // to the address home, as by DePath
 export type Address = string;
 export type PrivateKey = string;
 
-export type OperationPayload = {
-  key: string,
-  promise: () => Promise<any>,
-  onSuccess?: () => OperationEvent['result'],
-  onError?: () => OperationEvent['result']
+export type OperationType = typeof OPERATION[keyof typeof OPERATION];
+export type OperationStatus = typeof STATUS[keyof typeof STATUS];
+export type TransactionMethod = typeof TRANSACTION[keyof typeof TRANSACTION];
+export type TransferType = typeof OPERATION.MOVE | typeof OPERATION.RENAME | typeof OPERATION.COPY;
+
+// results of an operation by outcome, the error is typed, see errors.ts
+type Outcomes<Success, Failure, Progress = never> = {
+  success: Success;
+  error: Failure & { error: DeFileManagerError };
+  progress: Progress;
+}
+
+type TransferOutcomes = Outcomes<
+  {
+    destDirectory: DeDirectory;
+    sourceDirectory?: DeDirectory; // of moved and renamed entries
+    source: FileOrDir;
+    entry: FileOrDir; // at destination
+    entries: TransferResult[];
+  },
+  {
+    destDirectory: DeDirectory;
+    source: FileOrDir;
+    entries: TransferResult[]; // partially copied entries are in destination
+  },
+  { destDirectory: DeDirectory, entry: FileOrDir, progress: OperationProgress }
+>;
+
+// event results of each operation kind, by outcome
+export type OperationResults = {
+  UPLOAD_FILE: Outcomes<
+    { destDirectory: DeDirectory, file: DeFile },
+    { destDirectory: DeDirectory, file: FileLike },
+    { destDirectory: DeDirectory, file: FileLike, progress: UploadProgress }
+  >;
+  CREATE_DIRECTORY: Outcomes<
+    { destDirectory: DeDirectory, directory: DeDirectory },
+    { destDirectory: DeDirectory, directory: DeDirectory }
+  >;
+  DELETE_FILE: Outcomes<
+    { destDirectory: DeDirectory, file: DeFile },
+    { destDirectory: DeDirectory }
+  >;
+  DELETE_DIRECTORY: Outcomes<
+    { destDirectory?: DeDirectory, directory: DeDirectory }, // destDirectory is the parent
+    { destDirectory?: DeDirectory }
+  >;
+  GRANT_ROLE: Outcomes<
+    { address: Address, role: string },
+    { address: Address, role: string }
+  >;
+  RESERVE_SPACE: Outcomes<
+    { address: Address, amount: number },
+    { address: Address, amount: number }
+  >;
+  MOVE: TransferOutcomes;
+  RENAME: TransferOutcomes;
+  COPY: TransferOutcomes;
 }
 
-export type OperationEvent = {
+export type RetryAttempt = {
+  attempt: number; // failed attempt, from 1
+  attempts: number; // of the retry policy
+  delay: number; // ms before the next attempt
+}
+
+// event results of an operation kind by status, keys as in STATUS
+type StatusResults<T extends OperationType> = {
+  queued: undefined;
+  started: undefined;
+  sent: { transaction: TransactionState };
+  mined: { transaction: TransactionState };
+  confirmed: { transaction: TransactionState };
+  progress: OperationResults[T]['progress'];
+  retrying: OperationResults[T]['error'] & RetryAttempt;
+  success: OperationResults[T]['success'];
+  error: OperationResults[T]['error'];
+  cancelled: OperationResults[T]['error'];
+  observed: ObservedChange;
+}
+
+/**
+ * Event of an operation kind, discriminated by status
+ * narrowed to given statuses, ex: OperationEventOf<'UPLOAD_FILE', 'progress'>
+ */
+export type OperationEventOf<T extends OperationType, S extends OperationStatus = OperationStatus> = {
+  [K in S]: {
+    id: string;
+    type: T;
+    status: K;
+    result: StatusResults<T>[K];
+  }
+}[S];
+
+/**
+ * Event of any operation, discriminated by type then status
+ * ex: `event.type === OPERATION.UPLOAD_FILE && event.status === STATUS.PROGRESS` narrows result to upload progress
+ */
+export type OperationEvent = { [T in OperationType]: OperationEventOf<T> }[OperationType];
+
+// event an operation is settled with once successful
+export type OperationSuccess<T extends OperationType> = OperationEventOf<T, typeof STATUS.SUCCESS>;
+
+// event an operation is rejected with once failed or cancelled
+export type OperationFailure<T extends OperationType> = OperationEventOf<T, typeof STATUS.ERROR | typeof STATUS.CANCELLED>;
+
+// operation waiting in or run by the scheduler
+export type ScheduledTask = {
   id: string;
-  type: string;
+  key: OperationType;
+  priority: number; // see PRIORITY
+  paths: RelativePath[]; // written by the operation, for ordering of dependent operations
+  run: () => Promise<OperationEvent>;
+}
+
+// operation scheduled and not completed, see DeFileManager.cancel
+export type TrackedOperation = {
+  type: OperationType;
+  controller: AbortController;
+  confirmations: Promise<unknown>[]; // of mined transactions
+}
+
+// transaction sent by an operation, see STATUS for lifecycle
+export type TransactionState = {
+  hash: string;
+  status: typeof STATUS.SENT | typeof STATUS.MINED | typeof STATUS.CONFIRMED;
+  blockNumber?: number; // once mined
+  confirmations?: number; // blocks including the one mined in, once confirmed
+  receipt?: unknown; // once mined
+}
+
+// change of contract state mined in a block, by a contract method or event, see StorageBackend.getChanges
+export type ContractChange = {
+  event: string; // see TRANSACTION and CONTRACT_EVENT
+  transaction: TransactionState; // mined
+  sender: Address;
+  storagePath?: string; // changed content, in home directory of the sender
+  account?: Address; // of role events and space reservations
+  role?: string; // of role events, see ROLE
+}
+
+// change by another client observed on chain, see DeFileManager.watchChain
+export type ObservedChange = Omit<ContractChange, 'storagePath'> & {
+  path?: RelativePath; // changed content, relative to address
+  directory?: RelativePath; // parent of changed content
+}
+
+// change of a watched directory between listings, see DeFileManager.watch
+export type DirectoryChange = {
+  type: string; // see DIRECTORY_CHANGE
+  directory: DeDirectory;
+  entry: FileOrDir; // as listed last, as listed before for removed entries
+}
+
+export type WatchOptions = {
+  interval?: number; // ms between listings, see DIRECTORY_WATCH
+  blocks?: boolean; // list once per new block instead of interval, see DeFileManager.blocks
+}
+
+// see DeFileManager.glob
+export type GlobOptions = {
+  cwd?: DeDirectory; // patterns are relative to, defaults to the address home
+  ignore?: string | string[]; // patterns of entries neither matched nor descended into
+  kind?: string; // of matched entries, see KIND, files and directories by default
+}
+
+// inclusive bounds, either may be left out
+export type NumberRange = {
+  min?: number;
+  max?: number;
+}
+
+// see DeFileManager.search
+// size, type and extension filter files only, directories never match them
+export type SearchQuery = {
+  name?: string | RegExp; // matched against entry names by mode, every entry matches without
+  mode?: string; // see SEARCH_MODE, regex for RegExp names, fuzzy by default
+  directory?: DeDirectory; // searched within, defaults to the address home
+  kind?: string; // see KIND
+  size?: NumberRange; // bytes
+  type?: string | string[]; // MIME types, "image/*" for any subtype
+  extension?: string | string[]; // with or without the dot, ex: "png"
+  path?: string; // prefix of paths relative to directory, ex: "photos/20"
+  depth?: NumberRange; // relative to directory, its entries at depth 1
+  limit?: number; // of results
+}
+
+export type SearchResult = {
+  entry: FileOrDir;
+  score: number; // 0 for a perfect match, up to 1
+}
+
+export type OperationProgress = {
+  loaded: number; // bytes written on-chain
+  total: number; // bytes to write
+}
+
+export type UploadProgress = OperationProgress & {
+  chunk: number; // chunks written
+  chunks: number; // total chunks
+}
+
+// result per entry of a copied or moved tree
+export type TransferResult = {
+  source: { kind: string, name: string, path: RelativePath };
+  storagePath: string; // destination
   status: string;
-  result?: any
-};
+  error?: DeFileManagerError;
+}
+
+export type OperationOptions = {
+  signal?: AbortSignal; // cancels the operation once aborted, see DeFileManager.cancel
+}
+
+export type UploadOptions = OperationOptions & {
+  resumable?: boolean; // record landed chunks and continue from the first missing one
+}
+
+export type UploadSession = {
+  id: string; // signer and path
+  path: RelativePath; // relative to signer address
+  size: number;
+  hash: string; // of contents, see utils.contentHash
+  chunkSize: number;
+  chunks: boolean[]; // landed chunks
+  updatedAt: number;
+}
+
+// queued operation kept until it completes, see DeFileManager.replay
+export type JournalEntry = {
+  id: string; // of the operation
+  type: OperationType;
+  signer: Address;
+  params: JournalParams;
+  createdAt: number;
+}
+
+// arguments of a journaled operation, paths relative to signer address
+export type JournalParams = {
+  path?: RelativePath; // created, deleted or uploaded entry, or source of a transfer
+  destination?: RelativePath; // of a transfer
+  copied?: boolean; // transfer content is written in full
+  size?: number; // of an upload
+  address?: Address; // of space reservation or role grant
+  amount?: number;
+  role?: string;
+}
+
+export interface KeyValueStorage<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export type Signer = {
+  address: Address;
+  privateKey?: PrivateKey;
+  onTransaction?: (transaction: TransactionState) => void; // called as transactions are sent and mined
+}
+
+/**
+ * Storage operations the file manager is built on
+ * paths of write operations are relative to signer address, others are storage paths
+ */
+export interface StorageBackend {
+  // content
+  listDirectory(storagePath: string): Promise<Array<FileStorageDirectory | FileStorageFile>>;
+  uploadedChunks(storagePath: string): Promise<boolean[]>;
+  getFileStatus(storagePath: string): Promise<number>;
+  getFileSize(storagePath: string): Promise<number>;
+  readChunk(storagePath: string, position: number, length: number): Promise<Buffer>;
+  download(storagePath: string): Promise<Buffer>;
+  getMaxChunkSize(): Promise<number>;
+  getMaxFileSize(): Promise<number>;
+  getMaxContentCount(): Promise<number>; // entries per directory
+  isOnline(): Promise<boolean>; // chain is reachable
+  getBlockNumber(): Promise<number>;
+  getChanges(fromBlock: number, toBlock: number): Promise<ContractChange[]>; // successful, in order mined
+
+  // content:authorized
+  createDirectory(signer: Signer, path: string): Promise<unknown>;
+  deleteDirectory(signer: Signer, path: string): Promise<unknown>;
+  deleteFile(signer: Signer, path: string): Promise<unknown>;
+  startUpload(signer: Signer, path: string, size: number): Promise<unknown>;
+  uploadChunk(signer: Signer, path: string, position: number, data: Buffer): Promise<unknown>;
+  finishUpload(signer: Signer, path: string): Promise<unknown>;
+  estimateGas(signer: Signer, method: TransactionMethod, args: TransactionArgument[]): Promise<number>;
+  getGasPrice(): Promise<string>; // wei
+
+  // space
+  getReservedSpace(address: Address): Promise<number>;
+  getOccupiedSpace(address: Address): Promise<number>;
+  getTotalReservedSpace(): Promise<number>;
+  getTotalSpace(): Promise<number>;
+  reserveSpace(signer: Signer, address: Address, amount: number): Promise<unknown>;
+
+  // roles, see ROLE
+  hasRole(role: string, address: Address): Promise<boolean>;
+  grantRole(signer: Signer, role: string, address: Address): Promise<unknown>;
+}
+
+export type TransactionArgument = string | number | Buffer;
+
+// retries of failed queued operations, see RETRY for defaults
+export type RetryPolicy = {
+  attempts?: number; // including the first, 1 disables retries
+  delay?: number; // ms before the first retry
+  factor?: number; // delay multiplier per retry
+  maxDelay?: number; // ms
+  retryable?: (error: any) => boolean; // defaults to isRetryable, see errors.ts
+}
+
+export type DeFileManagerOptions = {
+  backend?: StorageBackend; // defaults to filestorage.js on given web3 provider
+  uploadSessions?: KeyValueStorage<UploadSession>; // defaults to in-memory
+  preflight?: boolean; // validate operations before sending transactions, defaults to true
+  concurrency?: number; // operations running at once, defaults to 1
+  priorities?: { [operation: string]: number }; // lane by operation over OPERATION_PRIORITY, see PRIORITY
+  mtm?: number; // transactions in flight at once with multi-transaction mode, see Chain.mtmLimit
+  retry?: RetryPolicy;
+  journal?: KeyValueStorage<JournalEntry>; // defaults to in-memory
+  reconnectInterval?: number; // ms between connectivity checks while offline, see CONNECTIVITY
+  confirmations?: number; // blocks a transaction is mined in and past before confirmed, see CONFIRMATION
+  blockInterval?: number; // ms between checks for new blocks, see CHAIN_WATCH
+  cache?: CacheOptions;
+  directoryIndex?: KeyValueStorage<IndexedListing>; // listings persisted across sessions, none by default
+  chainId?: string | number; // namespaces the directory index along with the address
+}
+
+// directory listings cache, see CACHE for defaults
+export type CacheOptions = {
+  ttl?: number; // ms a listing is fresh
+  staleWhileRevalidate?: number; // ms past ttl a listing is served while loaded again, 0 disables
+  maxEntries?: number; // listings, least recently used are evicted
+  maxBytes?: number; // of listings, approximate
+}
+
+// listing persisted in the directory index, by chain and storage path
+export type IndexedListing = {
+  entries: Array<FileStorageDirectory | FileStorageFile>;
+  cachedAt: number;
+}
+
+export type CacheStats = {
+  hits: number;
+  stale: number; // hits served while revalidated
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+}
+
+// operation checked against contract limits and signer space, see DeFileManager.validate
+export type PreflightOperation = {
+  type: string; // see OPERATION
+  destDirectory: IDeDirectory;
+  name: string; // of the entry to be created
+  size?: number; // bytes to be written
+  resumable?: boolean; // existing file of an upload may be continued
+}
+
+// operation of a plan to be estimated, see DeFileManager.estimate
+export type PlannedOperation = {
+  type: string; // UPLOAD_FILE, CREATE_DIRECTORY, DELETE_FILE or DELETE_DIRECTORY, see OPERATION
+  path: RelativePath; // relative to signer address
+  file?: FileLike; // content of an upload
+}
+
+export type OperationEstimate = {
+  type: string;
+  path: RelativePath;
+  transactions: number;
+  bytes: number; // written on-chain
+  gas: number;
+  exact: boolean; // false when any transaction is bounded by its gas limit instead
+}
+
+export type PlanEstimate = {
+  operations: OperationEstimate[];
+  transactions: number;
+  bytes: number;
+  gas: number;
+  gasPrice: string; // wei
+  cost: string; // wei
+  exact: boolean;
+}
 
 export type FileLike = {
   name: string,
@@ -32,16 +411,18 @@ export type FileLike = {
 export interface IDeDirectory {
   kind: string;
   name: string;
-  path: DePath;
-  entries(): Promise<Iterable<IDeFile | IDeDirectory>>;
+  path: RelativePath;
+  entries(): AsyncGenerator<IDeFile | IDeDirectory>;
 }
 
 export interface IDeFile {
   kind: string;
   name: string;
-  path: DePath;
+  path: RelativePath;
   type: string;
   size: number;
   timestamp?: string;
   arrayBuffer(): Promise<ArrayBuffer>;
+  slice(start?: number, end?: number): Promise<ArrayBuffer>;
+  stream(): ReadableStream<Uint8Array>;
 }
\ No newline at end of file
@@ -1,14 +1,20 @@
 import Web3 from 'web3';
 
-function pathToRelative(storagePath: string) {
-  return storagePath.split("/").slice(1).join('/');
+/**
+ * Cost in wei of gas at gas price, as decimal string
+ * @param gas 
+ * @param gasPrice wei
+ */
+function gasCost(gas: number, gasPrice: string) {
+  return Web3.utils.toBN(gasPrice).mul(Web3.utils.toBN(gas)).toString();
 }
 
-function pathToAbsolute(path: string, address: string) {
-  const home = sanitizeAddress(address, { prefix: false, checksum: false });
-  return (path === "")
-    ? home
-    : home + '/' + path;
+/**
+ * Keccak-256 of contents as hex string, telling apart files of the same size
+ * @param buffer 
+ */
+function contentHash(buffer: Buffer) {
+  return Web3.utils.soliditySha3Raw({ t: 'bytes', v: '0x' + buffer.toString('hex') });
 }
 
 function sanitizeAddress(
@@ -42,7 +48,7 @@ function sanitizeAddress(
 }
 
 export default {
-  pathToRelative,
-  pathToAbsolute,
+  gasCost,
+  contentHash,
   sanitizeAddress
 }
\ No newline at end of file
@@ -1,20 +1,27 @@
-import { useEffect, useLayoutEffect, useReducer, useRef, useCallback } from 'react';
-import { useInterval } from 'react-use';
+import { useEffect, useLayoutEffect, useReducer, useRef } from 'react';
 
-import type { FileStorageDirectory, FileStorageFile } from '@skalenetwork/filestorage.js';
+import type { FileStorageFile } from '@skalenetwork/filestorage.js';
 import { DeFileManager, DeDirectory, DeFile, FileOrDir } from '../filemanager/defilemanager';
-import type { FileLike, OperationEvent, DePath } from '../filemanager/types';
-import { OPERATION } from '../filemanager/constants';
+import type { FileLike, OperationEvent, RelativePath, OperationProgress, UploadProgress, DirectoryChange, RetryAttempt } from '../filemanager/types';
+import { KIND, OPERATION, STATUS, FINAL_STATUSES, DIRECTORY_CHANGE } from '../filemanager/constants';
+import { WebStorage, IndexedDBStorage } from '../filemanager/storage';
+import { DeFileManagerError, NotAuthorizedError } from '../filemanager/errors';
+import { DePath } from '../filemanager/path';
 
 export type FileStatus = {
   file: File;
   path: FileStorageFile['storagePath'];
   progress: number;
-  error?: {
-    name: string;
-    message: string;
-    stack: string;
-  };
+  error?: DeFileManagerError;
+  // last failed attempt while retrying, cleared on progress or outcome
+  retry?: RetryAttempt & { error: DeFileManagerError };
+};
+
+export type TransferStatus = {
+  type: string; // operation kind
+  entry: FileOrDir;
+  destDirectory: DeDirectory;
+  progress: OperationProgress;
 };
 
 export type MainState = {
@@ -27,6 +34,9 @@ export type MainState = {
   // signer relative to address
   isAuthorized: boolean;
 
+  // chain reachability, operations are paused while offline
+  isOnline: boolean;
+
   // current file navigation state
   directory: DeDirectory | undefined;
   listing: Array<FileOrDir>;
@@ -40,11 +50,12 @@ export type MainState = {
 export type OperationState = {
   // operations on address by signer
   isCreatingDirectory: boolean;
-  activeUploads: Map<DePath, Array<FileStatus>>;
-  completedUploads: Map<DePath, Array<FileStatus>>;
-  failedUploads: Map<DePath, Array<FileStatus>>;
+  activeUploads: Map<RelativePath, Array<FileStatus>>;
+  completedUploads: Map<RelativePath, Array<FileStatus>>;
+  failedUploads: Map<RelativePath, Array<FileStatus>>;
   totalUploadCount: number;
   uploadStatus: number;
+  activeTransfers: Map<string, TransferStatus>; // by operation id
 }
 
 export type State = MainState & OperationState;
@@ -55,6 +66,13 @@ export type Action = {
   deleteFile: (file: DeFile, directory: DeDirectory) => Promise<void>;
   deleteDirectory: (directory: DeDirectory) => Promise<void>;
   changeDirectory: (directory: DeDirectory) => unknown;
+  moveEntry: (entry: FileOrDir, destDirectory: DeDirectory, newName?: string) => Promise<void>;
+  renameEntry: (entry: FileOrDir, newName: string) => Promise<void>;
+  copyEntry: (entry: FileOrDir, destDirectory: DeDirectory, newName?: string) => Promise<void>;
+  cancelUpload: (path: FileStorageFile['storagePath']) => void;
+  cancelTransfer: (id: string) => void;
+  replayOperations: () => Promise<void>;
+  downloadFile: (file: DeFile) => Promise<void>;
 }
 
 export const ROLE = {
@@ -64,6 +82,7 @@ export const ROLE = {
 
 const initialState: State = {
   isAuthorized: false,
+  isOnline: true,
   accountRoles: [],
   fm: undefined,
   directory: undefined,
@@ -77,25 +96,32 @@ const initialState: State = {
   completedUploads: new Map(),
   failedUploads: new Map(),
   uploadStatus: 0,
+  activeTransfers: new Map(),
 };
 
 const ACTION = {
   INITIALIZE: 'INITIALIZE',
   SET_ROLES: 'SET_ROLES',
   SET_AUTHORITY: 'SET_AUTHORITY',
+  SET_ONLINE: 'SET_ONLINE',
   SET_CAPACITY: 'SET_CAPACITY',
 
   CHANGE_DIRECTORY: 'CHANGE_DIRECTORY',
   SET_LISTING: 'SET_LISTING',
+  APPLY_DIRECTORY_CHANGE: 'APPLY_DIRECTORY_CHANGE',
   SET_DIRECTORY_OP: 'SET_DIRECTORY_OP',
   SET_LOADING_DIRECTORY: 'SET_LOADING_DIRECTORY',
 
   INIT_UPLOADS: 'INIT_UPLOADS',
   SET_DIRECTORY_UPLOADS: 'SET_DIRECTORY_UPLOADS',
   SET_UPLOAD: 'SET_UPLOAD',
+  REMOVE_UPLOAD: 'REMOVE_UPLOAD',
   RESET_UPLOADS: 'RESET_UPLOADS',
   RESET_FAILED_UPLOADS: 'RESET_FAILED_UPLOADS', // @to_deprecate after prune actions
   SET_UPLOADS_PROGRESS: 'SET_UPLOADS_PROGRESS',
+
+  SET_TRANSFER: 'SET_TRANSFER',
+  REMOVE_TRANSFER: 'REMOVE_TRANSFER',
 };
 
 const reducer = (
@@ -107,6 +133,8 @@ const reducer = (
       return { ...state, accountRoles: action.payload }
     case ACTION.SET_AUTHORITY:
       return { ...state, isAuthorized: action.payload }
+    case ACTION.SET_ONLINE:
+      return { ...state, isOnline: action.payload }
     case ACTION.INITIALIZE:
       return {
         ...initialState,
@@ -123,6 +151,20 @@ const reducer = (
       return { ...state, directory: action.payload }
     case ACTION.SET_LISTING:
       return { ...state, listing: action.payload }
+    case ACTION.APPLY_DIRECTORY_CHANGE:
+      {
+        const { type, directory, entry }: DirectoryChange = action.payload;
+        if (!state.directory || directory.path !== state.directory.path) return state;
+        let listing = (type === DIRECTORY_CHANGE.CHANGED)
+          ? state.listing.map(item => (item.path === entry.path) ? entry : item)
+          : state.listing.filter(item => item.path !== entry.path);
+        if (type === DIRECTORY_CHANGE.ADDED) {
+          // directories are listed before files
+          const index = (entry.kind === KIND.DIRECTORY) ? listing.findIndex(item => item.kind === KIND.FILE) : -1;
+          (index < 0) ? listing.push(entry) : listing.splice(index, 0, entry);
+        }
+        return { ...state, listing }
+      }
     case ACTION.SET_DIRECTORY_OP:
       return { ...state, isCreatingDirectory: action.payload }
     case ACTION.SET_LOADING_DIRECTORY:
@@ -130,7 +172,7 @@ const reducer = (
 
     // 
     case ACTION.INIT_UPLOADS:
-      const { uploads, directory }: { directory: DePath, uploads: FileStatus[] } = action.payload;
+      const { uploads, directory }: { directory: RelativePath, uploads: FileStatus[] } = action.payload;
       const activeUploads = new Map(state.activeUploads);
       const scopeUploads = activeUploads.get(directory) || [];
       activeUploads.set(directory, [...scopeUploads, ...uploads]);
@@ -142,16 +184,16 @@ const reducer = (
     case ACTION.SET_UPLOAD:
       {
         let { directory, file }:
-          { directory: DePath, file: FileStatus } = action.payload;
+          { directory: RelativePath, file: Partial<FileStatus> & Pick<FileStatus, 'path'> } = action.payload;
 
         const activeUploads = new Map(state.activeUploads);
         const scopeUploads = [...activeUploads.get(directory) || []];
         const index = scopeUploads.findIndex(f => f.path === file.path);
 
         if (index < 0) {
-          scopeUploads.push(file);
+          scopeUploads.push(file as FileStatus);
         } else {
-          scopeUploads[index] = file;
+          scopeUploads[index] = { ...scopeUploads[index], ...file };
         }
 
         activeUploads.set(directory, scopeUploads);
@@ -161,9 +203,21 @@ const reducer = (
           activeUploads,
         }
       }
+    case ACTION.REMOVE_UPLOAD:
+      {
+        const { directory, path }: { directory: RelativePath, path: FileStatus['path'] } = action.payload;
+        const activeUploads = new Map(state.activeUploads);
+        const scopeUploads = (activeUploads.get(directory) || []).filter(f => f.path !== path);
+        activeUploads.set(directory, scopeUploads);
+        return {
+          ...state,
+          activeUploads,
+          totalUploadCount: Math.max(0, state.totalUploadCount - 1)
+        }
+      }
     case ACTION.SET_DIRECTORY_UPLOADS:
       {
-        let { directory, uploads }: { directory: DePath, uploads: FileStatus[] } = action.payload;
+        let { directory, uploads }: { directory: RelativePath, uploads: FileStatus[] } = action.payload;
         const activeUploads = new Map(state.activeUploads);
         activeUploads.set(directory, uploads);
         return {
@@ -187,6 +241,20 @@ const reducer = (
         ...state,
         uploadStatus: action.payload
       }
+
+    case ACTION.SET_TRANSFER:
+      {
+        const { id, transfer }: { id: string, transfer: TransferStatus } = action.payload;
+        const activeTransfers = new Map(state.activeTransfers);
+        activeTransfers.set(id, transfer);
+        return { ...state, activeTransfers }
+      }
+    case ACTION.REMOVE_TRANSFER:
+      {
+        const activeTransfers = new Map(state.activeTransfers);
+        activeTransfers.delete(action.payload);
+        return { ...state, activeTransfers }
+      }
     default:
       console.log('Unregistered action', action.type);
       return state;
@@ -245,17 +313,17 @@ export function useDeFileManager(
     }
   };
 
-  // make-shift, integrate to interfaces already! -.-
-  const absolutePath = (relativePath: string): FileStorageFile['storagePath'] => {
+  // storage path of a file uploaded into a directory, keys active uploads
+  const uploadPath = (directory: DeDirectory, name: string): FileStorageFile['storagePath'] => {
     if (!fm) return '';
-    const absolutePath = fm.rootDirectory().name
-      + ((!relativePath || relativePath.slice(0, 1) === '/') ? '' : '/')
-      + relativePath;
-    return absolutePath;
+    return DePath.from(directory.path).child(name).toStoragePath(fm.rootDirectory().name);
   }
 
   const cwdRef = useRef(cwd);
 
+  // abort controllers of active uploads, by storage path
+  const uploadControllers = useRef(new Map<string, AbortController>());
+
   // horridly frequent and expensive, better not done as side-effect
   // first candidate for improvement after upload actions are better structured
   useEffect(() => {
@@ -281,21 +349,113 @@ export function useDeFileManager(
       account = w3Provider.selectedAddress;
     }
 
-    const fm = new DeFileManager(w3Provider, address, account, privateKey);
-    fm.bus.subscribe((event: OperationEvent) => {
-      console.log("event", event);
-      if (event.status === "success" && (event.result && event.result.destDirectory)) {
+    const fm = new DeFileManager(w3Provider, address, account, privateKey, {
+      // uploads interrupted by a reload resume when the same file is uploaded again
+      uploadSessions: new WebStorage('skale-fm:uploads:'),
+      // operations interrupted by a reload are completed with replayOperations
+      journal: new IndexedDBStorage('skale-fm:journal'),
+      // last-known tree shown on reopening, revalidated in the background
+      directoryIndex: new IndexedDBStorage('skale-fm:index'),
+      chainId: w3Provider.chainId
+    });
+    const onlineWatch = fm.online.subscribe((isOnline: boolean) => {
+      dispatch({ type: ACTION.SET_ONLINE, payload: isOnline });
+    });
+    const loadRoles = async () => {
+      let roles = [];
+      if (await fm.accountIsAllocator()) {
+        roles.push(ROLE.ALLOCATOR);
+      }
+      if (await fm.accountIsAdmin()) {
+        roles.push(ROLE.ADMIN);
+      }
+      if (roles.length) {
+        dispatch({
+          action: ACTION.SET_ROLES,
+          payload: roles
+        });
+      }
+    };
+    const busWatch = fm.bus.subscribe((event: OperationEvent) => {
+      // changes by other clients or tabs, the listing follows by watching the directory
+      if (event.status === STATUS.OBSERVED) {
+        if (event.type === OPERATION.GRANT_ROLE) {
+          loadRoles();
+        }
+        return;
+      }
+      if (event.status === STATUS.SUCCESS && ('destDirectory' in event.result && event.result.destDirectory)) {
         maybeRefreshCwd(event.result.destDirectory);
       }
+      if (event.status === STATUS.SUCCESS && ('sourceDirectory' in event.result && event.result.sourceDirectory)) {
+        maybeRefreshCwd(event.result.sourceDirectory);
+      }
       switch (event.type) {
         case OPERATION.CREATE_DIRECTORY:
+          if (!FINAL_STATUSES.includes(event.status)) return;
           dispatch({
             type: ACTION.SET_DIRECTORY_OP, payload: false
           });
           break;
         case OPERATION.UPLOAD_FILE:
-          if (event.status === "error") {
-            console.error("uploadFile::failure", event.result.error);
+          if (event.status === STATUS.PROGRESS) {
+            const { destDirectory, file, progress }:
+              { destDirectory: DeDirectory, file: FileLike, progress: UploadProgress } = event.result;
+            dispatch({
+              type: ACTION.SET_UPLOAD,
+              payload: {
+                directory: destDirectory.path,
+                file: {
+                  path: uploadPath(destDirectory, file.name),
+                  // 100 is reserved for finalized uploads
+                  progress: Math.min(99, Math.floor(progress.loaded / (progress.total || 1) * 100)),
+                  retry: undefined
+                }
+              }
+            });
+          }
+          if (event.status === STATUS.SUCCESS) {
+            const { destDirectory, file } = event.result;
+            dispatch({
+              type: ACTION.SET_UPLOAD,
+              payload: {
+                directory: destDirectory.path,
+                file: {
+                  path: uploadPath(destDirectory, file.name),
+                  progress: 100,
+                  retry: undefined
+                }
+              }
+            });
+          }
+          if (event.status === STATUS.SUCCESS || event.status === STATUS.ERROR || event.status === STATUS.CANCELLED) {
+            const { destDirectory, file } = event.result;
+            uploadControllers.current.delete(uploadPath(destDirectory, file.name));
+          }
+          if (event.status === STATUS.CANCELLED) {
+            const { destDirectory, file } = event.result;
+            dispatch({
+              type: ACTION.REMOVE_UPLOAD,
+              payload: {
+                directory: destDirectory.path,
+                path: uploadPath(destDirectory, file.name)
+              }
+            });
+          }
+          if (event.status === STATUS.RETRYING) {
+            const { error, attempt, attempts, delay, destDirectory, file } = event.result;
+            dispatch({
+              type: ACTION.SET_UPLOAD,
+              payload: {
+                directory: destDirectory.path,
+                file: {
+                  path: uploadPath(destDirectory, file.name),
+                  retry: { error, attempt, attempts, delay }
+                }
+              }
+            });
+          }
+          if (event.status === STATUS.ERROR) {
             const { error, destDirectory, file } = event.result;
             dispatch({
               type: ACTION.SET_UPLOAD,
@@ -303,9 +463,10 @@ export function useDeFileManager(
                 directory: destDirectory.path,
                 file: {
                   file: event.result.file,
-                  path: absolutePath(`${destDirectory.path}/${file.name}`),
+                  path: uploadPath(destDirectory, file.name),
                   progress: 0,
-                  error: error.error
+                  error,
+                  retry: undefined
                 }
               }
             });
@@ -313,12 +474,15 @@ export function useDeFileManager(
           break;
         case OPERATION.DELETE_FILE:
         case OPERATION.DELETE_DIRECTORY:
-          if (event.status === "error") return;
+          if (event.status !== STATUS.SUCCESS) return;
           if (!cwdRef.current) return;
-          const { destDirectory, file, directory } = event.result;
+          const { destDirectory } = event.result;
+          // parent is unknown for directories not listed through it
+          if (!destDirectory) return;
+          const entry = ('file' in event.result) ? event.result.file : event.result.directory;
           if (destDirectory.path === cwdRef.current.path) {
             let listing = [...state.listing];
-            const index = listing.findIndex(item => item.path === (file || directory).path);
+            const index = listing.findIndex(item => item.path === entry.path);
             if (!index) return;
             listing.splice(index, 1);
             dispatch({
@@ -327,6 +491,22 @@ export function useDeFileManager(
             });
           }
           break;
+        case OPERATION.MOVE:
+        case OPERATION.RENAME:
+        case OPERATION.COPY:
+          if (event.status === STATUS.PROGRESS) {
+            const { entry, destDirectory, progress } = event.result;
+            dispatch({
+              type: ACTION.SET_TRANSFER,
+              payload: {
+                id: event.id,
+                transfer: { type: event.type, entry, destDirectory, progress }
+              }
+            });
+          } else if (FINAL_STATUSES.includes(event.status)) {
+            dispatch({ type: ACTION.REMOVE_TRANSFER, payload: event.id });
+          }
+          break;
         case OPERATION.RESERVE_SPACE:
           break;
         case OPERATION.GRANT_ROLE:
@@ -345,22 +525,14 @@ export function useDeFileManager(
       payload: ((account || "").toLowerCase() === address.toLowerCase())
     });
 
-    (async () => {
-      let roles = [];
-      if (await fm.accountIsAllocator()) {
-        roles.push(ROLE.ALLOCATOR);
-      }
-      if (await fm.accountIsAdmin()) {
-        roles.push(ROLE.ADMIN);
-      }
-      if (roles.length) {
-        dispatch({
-          action: ACTION.SET_ROLES,
-          payload: roles
-        });
-      }
-    })();
+    loadRoles();
 
+    const chainWatch = fm.watchChain();
+    return () => {
+      onlineWatch.unsubscribe();
+      busWatch.unsubscribe();
+      chainWatch.unsubscribe();
+    };
   }, [w3Provider, address, privateKey]);
 
   // setup storage metadata
@@ -385,44 +557,21 @@ export function useDeFileManager(
     loadCurrentDirectory();
   }, [state.fm, cwd]);
 
-  // periodically fetch relevant directory listings, update active uploads with progress
-  // tested for uploads under 1mb: file being uploaded not reflected in directory listing via node
-  // @todo can be better managed after some restructure involving converging remote + local state vs lookup of remote
-  const refreshActiveUploads = useCallback(async () => {
-    if (!fm) return;
-    for (let dirPath of state.activeUploads.keys()) {
-      // no in-progress uploads for directory, skip
-      const dirUploads = state.activeUploads.get(dirPath);
-      if (!dirUploads?.length || dirUploads.every(upload => (upload.error || upload.progress === 100)))
-        continue;
-
-      // get remote listing for directory
-      let listing: (FileStorageFile | FileStorageDirectory)[] = await fm.loadDirectory(absolutePath(dirPath), true);
-
-      // uploads mapped to progress from remote listing
-      let dirUploadsWithProgress =
-        dirUploads.map(upload => {
-          if (upload.error || upload.progress === 100) {
-            return upload;
-          }
-          const match = listing.find(f => {
-            // console.log("interval:: upload match params", f.storagePath, '===', upload.path);
-            return f.storagePath === upload.path
-          });
-          // console.log("interval::upload match", JSON.stringify(match));
-          return { ...upload, progress: (match as FileStorageFile)?.uploadingProgress || 0 }
+  // apply changes of current directory by others, listed per new block
+  useEffect(() => {
+    if (!(fm && cwd)) return;
+    const subscription = fm.watch(cwd, { blocks: true }).subscribe({
+      next: (change: DirectoryChange) => {
+        dispatch({
+          type: ACTION.APPLY_DIRECTORY_CHANGE,
+          payload: change
         });
-
-      dispatch({
-        type: ACTION.SET_DIRECTORY_UPLOADS, payload: {
-          directory: dirPath,
-          uploads: dirUploadsWithProgress
-        }
-      });
-    }
-  }, [state.activeUploads, fm]);
-
-  useInterval(refreshActiveUploads, 2000);
+      },
+      // ex: the directory removed by another client, the last listing is kept
+      error: () => undefined
+    });
+    return () => subscription.unsubscribe();
+  }, [state.fm, cwd]);
 
   const createDirectory = async (
     name: string,
@@ -430,7 +579,7 @@ export function useDeFileManager(
   ) => {
 
     if (!(fm && cwd && state.isAuthorized)) {
-      throw Error("Not authorized");
+      throw new NotAuthorizedError();
     }
 
     dispatch({
@@ -445,15 +594,10 @@ export function useDeFileManager(
   ): Promise<void> => {
 
     if (!(fm && cwd && state.isAuthorized)) {
-      throw Error("Not authorized");
+      throw new NotAuthorizedError();
     }
 
-    console.log("uploadFiles", files, directory);
-
-    if (!files.length) {
-      console.error("uploadFiles:: No files to upload");
-      return;
-    }
+    if (!files.length) return;
 
     // add to the active uploads with zero progress
     dispatch({
@@ -462,7 +606,7 @@ export function useDeFileManager(
         directory: directory.path,
         uploads: files.map(file => ({
           file,
-          path: absolutePath(`${directory.path}/${file.name}`),
+          path: uploadPath(directory, file.name),
           progress: 0
         } as FileStatus
         ))
@@ -471,16 +615,47 @@ export function useDeFileManager(
 
     for (let index = 0; index < files.length; index++) {
       let file = files[index];
-      fm.uploadFile(directory, file as FileLike);
+      const controller = new AbortController();
+      uploadControllers.current.set(uploadPath(directory, file.name), controller);
+      // outcomes, cancellations included, are reported on the bus
+      fm.uploadFile(directory, file as FileLike, { resumable: true, signal: controller.signal })
+        .catch(() => undefined);
     };
   };
 
+  const cancelUpload = (path: FileStorageFile['storagePath']) => {
+    uploadControllers.current.get(path)?.abort();
+  };
+
+  const cancelTransfer = (id: string) => {
+    fm?.cancel(id);
+  };
+
+  // uploads need their files again, see pendingUploads
+  const replayOperations = async () => {
+    if (!fm) return;
+    await fm.replay();
+  };
+
+  // saved by the browser under the file name
+  const downloadFile = async (file: DeFile) => {
+    if (!fm) return;
+    const buffer = await fm.downloadFile(file);
+    const url = URL.createObjectURL(new Blob([buffer], { type: file.type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    // the download starts asynchronously, revoking right away may cancel it
+    setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+  };
+
   const deleteFile = async (
     file: DeFile,
     directory: DeDirectory = (cwd as DeDirectory)
   ) => {
     if (!(fm && cwd && state.isAuthorized)) {
-      throw Error("Not authorized");
+      throw new NotAuthorizedError();
     }
     fm.deleteFile(directory, file);
   };
@@ -489,13 +664,52 @@ export function useDeFileManager(
     directory: DeDirectory
   ) => {
     if (!(fm && cwd && state.isAuthorized)) {
-      throw Error("Not authorized");
+      throw new NotAuthorizedError();
     }
     fm.deleteDirectory(directory);
   };
 
+  const moveEntry = async (
+    entry: FileOrDir,
+    destDirectory: DeDirectory,
+    newName?: string
+  ) => {
+    if (!(fm && cwd && state.isAuthorized)) {
+      throw new NotAuthorizedError();
+    }
+    await fm.move(entry, destDirectory, newName).catch(() => undefined);
+  };
+
+  const renameEntry = async (
+    entry: FileOrDir,
+    newName: string
+  ) => {
+    if (!(fm && cwd && state.isAuthorized)) {
+      throw new NotAuthorizedError();
+    }
+    await fm.rename(entry, newName).catch(() => undefined);
+  };
+
+  const copyEntry = async (
+    entry: FileOrDir,
+    destDirectory: DeDirectory,
+    newName?: string
+  ) => {
+    if (!(fm && cwd && state.isAuthorized)) {
+      throw new NotAuthorizedError();
+    }
+    await fm.copy(entry, destDirectory, newName).catch(() => undefined);
+  };
+
   const actions: Action = {
     uploadFiles,
+    moveEntry,
+    renameEntry,
+    copyEntry,
+    cancelUpload,
+    cancelTransfer,
+    replayOperations,
+    downloadFile,
     deleteFile,
     createDirectory,
     deleteDirectory,
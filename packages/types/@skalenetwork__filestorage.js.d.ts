@@ -1,5 +1,7 @@
 declare module '@skalenetwork/filestorage.js' {
 
+  import Web3 from 'web3';
+
   type FilePath = string;
   type StoragePath = string;
   type Address = string;
@@ -32,10 +34,11 @@ declare module '@skalenetwork/filestorage.js' {
 
   export default class Filestorage {
 
+    web3: Web3;
     contract: FilestorageContract;
 
     constructor(
-      web3: any,
+      web3: Web3,
       enableLogs: boolean);
 
     // core-actions:authorized
@@ -4,6 +4,8 @@ export type Chain = {
   version: string; // chain version
   sChainName: string; // chain name
   chainId: string; // chain ID
+  mtmLimit?: number; // transactions of a sender in flight with multi-transaction mode, if enabled
+  explorerUrl?: string; // block explorer, for links to transactions
 }
 
 export type FilePath = string;
\ No newline at end of file
@@ -0,0 +1,10 @@
+declare module 'password-prompt' {
+
+  type PromptOptions = {
+    method?: 'mask' | 'hide';
+    required?: boolean;
+    default?: string;
+  }
+
+  export default function prompt(ask: string, options?: PromptOptions): Promise<string>;
+}